@@ -0,0 +1,63 @@
+-- Variantes já estavam no schema.prisma do baseline, mas não no 000_baseline.
+-- Bancos criados com `db push` já têm estas tabelas: tudo é condicional.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "public"."ProductVariant" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "price" DECIMAL(12,2) NOT NULL,
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "sku" TEXT,
+    "imageUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "public"."ProductVariantImage" (
+    "id" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductVariantImage_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."OrderItem" ADD COLUMN IF NOT EXISTS "variantId" TEXT,
+ADD COLUMN IF NOT EXISTS "variantName" TEXT;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ProductVariant_productId_idx" ON "public"."ProductVariant"("productId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ProductVariant_active_sortOrder_idx" ON "public"."ProductVariant"("active", "sortOrder");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ProductVariantImage_variantId_idx" ON "public"."ProductVariantImage"("variantId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ProductVariantImage_sortOrder_idx" ON "public"."ProductVariantImage"("sortOrder");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "OrderItem_variantId_idx" ON "public"."OrderItem"("variantId");
+
+-- AddForeignKey
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ProductVariant_productId_fkey') THEN
+    ALTER TABLE "public"."ProductVariant" ADD CONSTRAINT "ProductVariant_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ProductVariantImage_variantId_fkey') THEN
+    ALTER TABLE "public"."ProductVariantImage" ADD CONSTRAINT "ProductVariantImage_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'OrderItem_variantId_fkey') THEN
+    ALTER TABLE "public"."OrderItem" ADD CONSTRAINT "OrderItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."ProductVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
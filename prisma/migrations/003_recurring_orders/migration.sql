@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."OrderInquiry" ADD COLUMN     "nextRunAt" TIMESTAMP(3),
+ADD COLUMN     "parentOrderId" TEXT,
+ADD COLUMN     "recurrenceStatus" TEXT;
+
+-- CreateIndex
+CREATE INDEX "OrderInquiry_recurrenceStatus_nextRunAt_idx" ON "public"."OrderInquiry"("recurrenceStatus", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "OrderInquiry_parentOrderId_idx" ON "public"."OrderInquiry"("parentOrderId");
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderInquiry" ADD CONSTRAINT "OrderInquiry_parentOrderId_fkey" FOREIGN KEY ("parentOrderId") REFERENCES "public"."OrderInquiry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
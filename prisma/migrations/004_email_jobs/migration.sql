@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "public"."EmailJob" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "to" TEXT[],
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "replyTo" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 6,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "transport" TEXT,
+    "providerId" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "orderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailJob_status_nextAttemptAt_idx" ON "public"."EmailJob"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "EmailJob_orderId_idx" ON "public"."EmailJob"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "public"."EmailJob" ADD CONSTRAINT "EmailJob_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."OrderInquiry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."MediaAsset" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "derivatives" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MediaAsset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MediaAsset_url_key" ON "public"."MediaAsset"("url");
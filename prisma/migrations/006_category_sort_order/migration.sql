@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Category" ADD COLUMN     "sortOrder" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_sortOrder_idx" ON "public"."Category"("parentId", "sortOrder");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."ProductCategory" ADD COLUMN     "isPrimary" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill: cada produto com categorias ganha uma primária — a primeira em
+-- ordem alfabética, o mesmo fallback de lib/catalog.ts.
+UPDATE "public"."ProductCategory" pc
+SET "isPrimary" = true
+FROM (
+    SELECT DISTINCT ON (l."productId") l."productId", l."categoryId"
+    FROM "public"."ProductCategory" l
+    JOIN "public"."Category" c ON c."id" = l."categoryId"
+    ORDER BY l."productId", c."name", c."id"
+) f
+WHERE pc."productId" = f."productId"
+  AND pc."categoryId" = f."categoryId";
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."ProductRevision" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "note" TEXT,
+    "actorId" TEXT,
+    "actorEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductRevision_productId_createdAt_idx" ON "public"."ProductRevision"("productId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductRevision" ADD CONSTRAINT "ProductRevision_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProductRevision" ADD CONSTRAINT "ProductRevision_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."CustomerMerge" (
+    "id" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "sourceEmail" TEXT NOT NULL,
+    "sourceSnapshot" JSONB NOT NULL,
+    "movedOrders" INTEGER NOT NULL DEFAULT 0,
+    "movedAddresses" INTEGER NOT NULL DEFAULT 0,
+    "actorId" TEXT,
+    "actorEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CustomerMerge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CustomerMerge_targetId_createdAt_idx" ON "public"."CustomerMerge"("targetId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CustomerMerge_sourceEmail_idx" ON "public"."CustomerMerge"("sourceEmail");
+
+-- AddForeignKey
+ALTER TABLE "public"."CustomerMerge" ADD CONSTRAINT "CustomerMerge_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "public"."Contact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CustomerMerge" ADD CONSTRAINT "CustomerMerge_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."Contact" ADD COLUMN     "defaultAddressId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contact_defaultAddressId_key" ON "public"."Contact"("defaultAddressId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Contact" ADD CONSTRAINT "Contact_defaultAddressId_fkey" FOREIGN KEY ("defaultAddressId") REFERENCES "public"."Address"("id") ON DELETE SET NULL ON UPDATE CASCADE;
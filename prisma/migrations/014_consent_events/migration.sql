@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."ConsentEvent" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "note" TEXT,
+    "actorId" TEXT,
+    "actorEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConsentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConsentEvent_customerId_createdAt_idx" ON "public"."ConsentEvent"("customerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ConsentEvent" ADD CONSTRAINT "ConsentEvent_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."Contact"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ConsentEvent" ADD CONSTRAINT "ConsentEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
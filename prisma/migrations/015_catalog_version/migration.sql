@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "public"."CatalogVersion" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CatalogVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- Linha única
+INSERT INTO "public"."CatalogVersion" ("id") VALUES (1);
@@ -122,7 +122,8 @@ type SeedProduct = {
   visiblePdf?: boolean; // default true
   visibleImages?: boolean; // default true
   visibleDescription?: boolean; // default true
-  categorySlug?: string; // slug da subcategoria (ou pai)
+  categorySlug?: string; // slug da subcategoria (ou pai) — principal
+  categorySlugs?: string[]; // categorias adicionais
   pdfUrl?: string;
   variants?: SeedVariant[]; // se FEATURE_VARIANTS=1
 };
@@ -209,14 +210,26 @@ async function upsertProduct(
     }
   }
 
-  // categoria principal (1:1)
+  // categorias: principal (categorySlug) + adicionais (categorySlugs)
   if (categoryIdBySlug) {
     await db.productCategory.deleteMany({ where: { productId } });
-    const catSlug = p.categorySlug ? slugify(p.categorySlug) : "";
-    const catId = catSlug ? categoryIdBySlug.get(catSlug) : undefined;
-    if (catId) {
-      await db.productCategory.create({
-        data: { productId, categoryId: catId },
+    const slugs = [p.categorySlug, ...(p.categorySlugs ?? [])]
+      .filter((s): s is string => !!s)
+      .map(slugify);
+    const catIds = [
+      ...new Set(
+        slugs
+          .map((s) => categoryIdBySlug.get(s))
+          .filter((id): id is string => !!id)
+      ),
+    ];
+    if (catIds.length) {
+      await db.productCategory.createMany({
+        data: catIds.map((categoryId, i) => ({
+          productId,
+          categoryId,
+          isPrimary: i === 0,
+        })),
       });
     }
   }
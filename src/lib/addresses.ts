@@ -0,0 +1,224 @@
+// src/lib/addresses.ts
+// Normalização e deduplicação de endereços: pedidos repetidos reutilizam o
+// mesmo Address em vez de criar uma cópia a cada checkout.
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+type Db = Prisma.TransactionClient;
+
+export type AddressInput = {
+  line1: string;
+  line2?: string | null;
+  district?: string | null;
+  city: string;
+  state?: string | null;
+  postalCode?: string | null;
+  country?: string | null;
+};
+
+export type NormalizedAddress = {
+  line1: string;
+  line2: string | null;
+  district: string | null;
+  city: string;
+  state: string | null;
+  postalCode: string | null;
+  country: string;
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  USA: "US",
+  "U.S.": "US",
+  "U.S.A.": "US",
+  "UNITED STATES": "US",
+  "UNITED STATES OF AMERICA": "US",
+  CANADA: "CA",
+  BRAZIL: "BR",
+  BRASIL: "BR",
+  MEXICO: "MX",
+  MÉXICO: "MX",
+  UK: "GB",
+  "UNITED KINGDOM": "GB",
+  "GREAT BRITAIN": "GB",
+};
+
+const clean = (v: string | null | undefined) =>
+  (v ?? "").trim().replace(/\s+/g, " ");
+
+const orNull = (v: string) => v || null;
+
+export function normalizeCountry(v: string | null | undefined) {
+  const c = clean(v).toUpperCase();
+  if (!c) return "US";
+  return COUNTRY_ALIASES[c] ?? c;
+}
+
+/** CEP/ZIP no formato do país; desconhecido = só maiúsculas */
+export function normalizePostalCode(
+  v: string | null | undefined,
+  country: string
+) {
+  const raw = clean(v).toUpperCase();
+  if (!raw) return null;
+  const digits = raw.replace(/\D/g, "");
+  const alnum = raw.replace(/[^0-9A-Z]/g, "");
+  switch (country) {
+    case "US":
+      if (digits.length === 9)
+        return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+      if (digits.length === 5) return digits;
+      break;
+    case "BR":
+      if (digits.length === 8)
+        return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+      break;
+    case "CA":
+      if (/^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(alnum))
+        return `${alnum.slice(0, 3)} ${alnum.slice(3)}`;
+      break;
+    case "GB":
+      if (alnum.length >= 5 && alnum.length <= 7)
+        return `${alnum.slice(0, -3)} ${alnum.slice(-3)}`;
+      break;
+  }
+  return raw;
+}
+
+export function normalizeAddress(a: AddressInput): NormalizedAddress {
+  const country = normalizeCountry(a.country);
+  const state = clean(a.state);
+  return {
+    line1: clean(a.line1),
+    line2: orNull(clean(a.line2)),
+    district: orNull(clean(a.district)),
+    city: clean(a.city),
+    // siglas (NY, SP, ON) em maiúsculas; nomes por extenso como vieram
+    state: orNull(state.length <= 3 ? state.toUpperCase() : state),
+    postalCode: normalizePostalCode(a.postalCode, country),
+    country,
+  };
+}
+
+/** chave de comparação: normalizado, sem caixa nem pontuação */
+export function addressKey(a: AddressInput) {
+  const n = normalizeAddress(a);
+  return [
+    n.line1,
+    n.line2,
+    n.district,
+    n.city,
+    n.state,
+    n.postalCode,
+    n.country,
+  ]
+    .map((v) =>
+      (v ?? "").toLowerCase().replace(/[.,#]/g, "").replace(/\s+/g, " ").trim()
+    )
+    .join("|");
+}
+
+/**
+ * Endereço do pedido: reutiliza um endereço igual do cliente ou cria um
+ * novo. Cliente sem endereço padrão passa a usar este.
+ */
+export async function findOrCreateAddress(
+  customerId: string,
+  input: AddressInput,
+  db: Db
+) {
+  const data = normalizeAddress(input);
+  const key = addressKey(data);
+
+  const existing = await db.address.findMany({
+    where: { customerId },
+    orderBy: { createdAt: "asc" },
+  });
+  const match = existing.find((a) => addressKey(a) === key);
+  const address =
+    match ?? (await db.address.create({ data: { ...data, customerId } }));
+
+  await db.customer.updateMany({
+    where: { id: customerId, defaultAddressId: null },
+    data: { defaultAddressId: address.id },
+  });
+  return { address, created: !match };
+}
+
+/**
+ * Manutenção: junta endereços iguais de cada cliente. Fica o mais antigo
+ * (ou o padrão do cliente); pedidos das cópias passam a apontar para ele.
+ */
+export async function dedupeAddresses(opts: { dryRun?: boolean } = {}) {
+  const stats = {
+    customers: 0,
+    groups: 0,
+    removed: 0,
+    ordersRepointed: 0,
+    normalized: 0,
+  };
+
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await prisma.customer.findMany({
+      where: { addresses: { some: {} } },
+      orderBy: { id: "asc" },
+      take: 100,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      select: {
+        id: true,
+        defaultAddressId: true,
+        addresses: { orderBy: { createdAt: "asc" } },
+      },
+    });
+    if (!batch.length) break;
+    cursor = batch[batch.length - 1].id;
+
+    for (const c of batch) {
+      const groups = new Map<string, typeof c.addresses>();
+      for (const a of c.addresses) {
+        const key = addressKey(a);
+        groups.set(key, [...(groups.get(key) ?? []), a]);
+      }
+
+      let touched = false;
+      for (const group of groups.values()) {
+        const keep = group.find((a) => a.id === c.defaultAddressId) ?? group[0];
+        const dupes = group.filter((a) => a.id !== keep.id).map((a) => a.id);
+        const data = normalizeAddress(keep);
+        const needsNormalize = (
+          Object.keys(data) as (keyof NormalizedAddress)[]
+        ).some((k) => keep[k] !== data[k]);
+        if (!dupes.length && !needsNormalize) continue;
+        touched = true;
+
+        if (needsNormalize) stats.normalized++;
+        if (dupes.length) stats.groups++;
+        stats.removed += dupes.length;
+        if (opts.dryRun) {
+          if (dupes.length)
+            stats.ordersRepointed += await prisma.orderInquiry.count({
+              where: { addressId: { in: dupes } },
+            });
+          continue;
+        }
+
+        await prisma.$transaction(async (tx) => {
+          if (needsNormalize)
+            await tx.address.update({ where: { id: keep.id }, data });
+          if (!dupes.length) return;
+          const moved = await tx.orderInquiry.updateMany({
+            where: { addressId: { in: dupes } },
+            data: { addressId: keep.id },
+          });
+          stats.ordersRepointed += moved.count;
+          await tx.address.deleteMany({ where: { id: { in: dupes } } });
+        });
+      }
+      if (touched) stats.customers++;
+    }
+
+    if (batch.length < 100) break;
+  }
+
+  return stats;
+}
@@ -0,0 +1,252 @@
+// src/lib/catalog.ts
+// Serialização de produtos compartilhada entre rotas (produtos, categorias…).
+import jwt from "jsonwebtoken";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { FEATURE_PROMOS, computeSale } from "./pricing";
+import {
+  MediaMap,
+  imageSet,
+  loadMediaMap,
+  productImageUrls,
+} from "./media";
+
+/** =========================
+ *  Feature flags
+ *  ========================= */
+export const HAS_VARIANT_MODEL = Boolean((prisma as any).productVariant);
+export const HAS_VARIANT_IMG_MODEL = Boolean((prisma as any).productVariantImage);
+
+export const FEATURE_VIS = process.env.FEATURE_VISIBILITY_FLAGS !== "0"; // default ON
+export const FEATURE_VAR = process.env.FEATURE_VARIANTS !== "0" && HAS_VARIANT_MODEL; // precisa do model
+
+/** helper: aceita http(s) OU caminho absoluto iniciando por "/" */
+export const urlish = z
+  .string()
+  .refine(
+    (v) => /^https?:\/\//i.test(v) || v.startsWith("/"),
+    'Must be an http(s) URL or a path starting with "/"'
+  );
+
+/** checa ADMIN com base no header Authorization */
+export function isAdminFromReq(req: any): boolean {
+  try {
+    const h = req.headers?.authorization || "";
+    if (!h.startsWith("Bearer ")) return false;
+    const token = h.slice(7);
+    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as any;
+    const role = decoded?.role ?? "USER";
+    const id = decoded?.sub ?? decoded?.uid;
+    return !!id && role === "ADMIN";
+  } catch {
+    return false;
+  }
+}
+
+/** categorias do produto: principal primeiro, depois alfabética */
+export const productCategoriesSelect = {
+  orderBy: [
+    { isPrimary: "desc" as const },
+    { category: { name: "asc" as const } },
+  ],
+  select: {
+    isPrimary: true,
+    category: {
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        parent: { select: { id: true, name: true, slug: true } },
+      },
+    },
+  },
+};
+
+function serializeCategory(c: any) {
+  return {
+    id: c.id,
+    name: c.name,
+    slug: c.slug,
+    parent: c.parent
+      ? { id: c.parent.id, name: c.parent.name, slug: c.parent.slug }
+      : null,
+  };
+}
+
+/**
+ * serialização respeitando flags de visibilidade (no público).
+ * `media` (loadMediaMap) transforma as imagens em srcset com derivados.
+ */
+export function serializeProduct(
+  p: any,
+  isAdmin: boolean,
+  media: MediaMap = new Map()
+) {
+  const links = (p.categories ?? []) as any[];
+  const primaryLink = links.find((l) => l.isPrimary) ?? links[0] ?? null;
+
+  const sale = FEATURE_PROMOS ? p.sale ?? computeSale(p) : undefined;
+
+  const visPrice = (p as any).visiblePrice ?? false;
+  const visPkg = (p as any).visiblePackageSize ?? true;
+  const visPdf = (p as any).visiblePdf ?? true;
+  const visImgs = (p as any).visibleImages ?? true;
+  const visDesc = (p as any).visibleDescription ?? true;
+
+  const show = (flag: boolean) => (isAdmin ? true : !!flag);
+  const toImageSet = (im: any) => imageSet(im.url, media.get(im.url));
+
+  // Variantes (com capa + galeria)
+  const variants =
+    FEATURE_VAR && Array.isArray(p.variants)
+      ? (p.variants as any[]).map((v) => ({
+          id: v.id,
+          name: v.name,
+          price: show(visPrice) ? Number(v.price) : undefined,
+          stock: v.stock,
+          active: v.active,
+          sortOrder: v.sortOrder ?? 0,
+          sku: v.sku ?? undefined,
+          imageUrl: v.imageUrl ?? null,
+          images:
+            Array.isArray(v.images) && show(visImgs)
+              ? v.images.map(toImageSet)
+              : [],
+        }))
+      : undefined;
+
+  return {
+    id: p.id,
+    name: p.name,
+    slug: p.slug,
+    description: show(visDesc) ? p.description : undefined,
+    price: show(visPrice) ? Number(p.price) : undefined,
+    active: p.active,
+    stock: p.stock,
+    sortOrder: p.sortOrder,
+    packageSize: show(visPkg) ? p.packageSize : undefined,
+    pdfUrl: show(visPdf) ? p.pdfUrl : undefined,
+    category: primaryLink ? serializeCategory(primaryLink.category) : null,
+    primaryCategoryId: primaryLink?.category?.id ?? null,
+    categories: links.map((l) => ({
+      ...serializeCategory(l.category),
+      primary: l === primaryLink,
+    })),
+    images: show(visImgs) ? (p.images as any[]).map(toImageSet) : [],
+    imageUrl: show(visImgs) ? p.images?.[0]?.url || p.imageUrl || null : null,
+    // promoção revela o preço: segue a mesma visibilidade
+    ...(FEATURE_PROMOS && sale && show(visPrice) ? { sale } : {}),
+    visibility: isAdmin
+      ? {
+          price: visPrice,
+          packageSize: visPkg,
+          pdf: visPdf,
+          images: visImgs,
+          description: visDesc,
+        }
+      : undefined,
+    variants,
+  };
+}
+
+/** Helper de SELECT pro retorno completo */
+export function selectForReturn() {
+  const select: any = {
+    id: true,
+    name: true,
+    slug: true,
+    description: true,
+    price: true,
+    imageUrl: true,
+    active: true,
+    stock: true,
+    sortOrder: true,
+    packageSize: true,
+    pdfUrl: true,
+    ...(FEATURE_VIS
+      ? {
+          visibleDescription: true,
+          visibleImages: true,
+          visiblePackageSize: true,
+          visiblePdf: true,
+          visiblePrice: true,
+        }
+      : {}),
+    images: {
+      select: { url: true, sortOrder: true },
+      orderBy: { sortOrder: "asc" as const },
+    },
+    categories: productCategoriesSelect,
+    ...(FEATURE_PROMOS
+      ? {
+          promotions: {
+            select: {
+              title: true,
+              percentOff: true,
+              priceOff: true,
+              startsAt: true,
+              endsAt: true,
+              active: true,
+            },
+          },
+        }
+      : {}),
+    ...(FEATURE_VAR
+      ? {
+          variants: {
+            select: {
+              id: true,
+              name: true,
+              price: true,
+              stock: true,
+              active: true,
+              sortOrder: true,
+              sku: true,
+              imageUrl: true,
+              ...(HAS_VARIANT_IMG_MODEL
+                ? {
+                    images: {
+                      select: { url: true, sortOrder: true },
+                      orderBy: { sortOrder: "asc" as const },
+                    },
+                  }
+                : {}),
+            },
+            orderBy: { sortOrder: "asc" as const },
+          },
+        }
+      : {}),
+  };
+  return select;
+}
+
+/** lista pronta para resposta: promoções calculadas + srcset das imagens */
+export async function serializeProducts(list: any[], isAdmin: boolean) {
+  const media = await loadMediaMap(productImageUrls(list));
+  return list.map((p) =>
+    serializeProduct(
+      { ...p, ...(FEATURE_PROMOS ? { sale: computeSale(p) } : {}) },
+      isAdmin,
+      media
+    )
+  );
+}
+
+/**
+ * Carimbo de versão do catálogo: CatalogVersion sobe a cada invalidação
+ * (toda escrita em produtos, categorias, vínculos, promoções, mídia e
+ * estoque — ver invalidateCatalog) + a última virada de promoção, que não
+ * passa por escrita. Usado como base de ETag.
+ */
+export async function catalogVersion(): Promise<string> {
+  const [row] = await prisma.$queryRaw<Array<Record<string, unknown>>>`
+    SELECT
+      (SELECT "version" FROM "CatalogVersion" WHERE "id" = 1) AS "version",
+      (SELECT max(b) FROM (
+         SELECT "startsAt" AS b FROM "Promotion" WHERE "startsAt" <= now()
+         UNION ALL
+         SELECT "endsAt" FROM "Promotion" WHERE "endsAt" <= now()
+       ) t) AS "boundaryAt"
+  `;
+  return JSON.stringify(row ?? {});
+}
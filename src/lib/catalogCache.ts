@@ -0,0 +1,227 @@
+// src/lib/catalogCache.ts
+// Cache em memória das respostas públicas do catálogo (produtos/categorias).
+// Invalidado por qualquer escrita admin bem-sucedida nesses routers, por
+// mudanças de estoque e quando uma promoção começa ou termina.
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { prisma } from "./prisma";
+
+const TTL_MS = Number(process.env.CATALOG_CACHE_TTL_MS || 5 * 60_000);
+const MAX_ENTRIES = Number(process.env.CATALOG_CACHE_MAX_ENTRIES || 500);
+const ENABLED = process.env.CATALOG_CACHE !== "0";
+
+type Entry = {
+  body: string;
+  etag: string;
+  cacheControl: string | undefined;
+  expiresAt: number;
+};
+
+const entries = new Map<string, Entry>();
+
+const stats = {
+  hits: 0,
+  misses: 0,
+  stores: 0,
+  evictions: 0,
+  invalidations: 0,
+  lastInvalidatedAt: null as Date | null,
+  lastInvalidationReason: null as string | null,
+};
+
+/** próximo início/fim de promoção; undefined = ainda não consultado */
+let nextBoundary: Date | null | undefined;
+let boundaryLookup: Promise<Date | null> | null = null;
+
+async function lookupNextBoundary(now: Date): Promise<Date | null> {
+  const [starts, ends] = await Promise.all([
+    prisma.promotion.aggregate({
+      where: { active: true, startsAt: { gt: now } },
+      _min: { startsAt: true },
+    }),
+    prisma.promotion.aggregate({
+      where: { active: true, endsAt: { gt: now } },
+      _min: { endsAt: true },
+    }),
+  ]);
+  const candidates = [starts._min.startsAt, ends._min.endsAt].filter(
+    (d): d is Date => !!d
+  );
+  return candidates.length
+    ? new Date(Math.min(...candidates.map((d) => d.getTime())))
+    : null;
+}
+
+async function getNextBoundary(): Promise<Date | null> {
+  if (nextBoundary !== undefined) return nextBoundary;
+  boundaryLookup ??= lookupNextBoundary(new Date())
+    .then((d) => (nextBoundary = d))
+    .finally(() => (boundaryLookup = null));
+  return boundaryLookup;
+}
+
+/** sobe a versão persistida (ETag de catalogVersion); só depois do commit */
+async function bumpCatalogVersion() {
+  try {
+    await prisma.catalogVersion.upsert({
+      where: { id: 1 },
+      create: { id: 1, version: 1 },
+      update: { version: { increment: 1 } },
+    });
+  } catch (e: any) {
+    console.warn("[catalog-cache] version bump failed:", e?.message || e);
+  }
+}
+
+/**
+ * Limpa tudo (escrita admin, estoque, virada de promoção…). Quem responde a
+ * uma escrita deve aguardar: a versão sobe antes de a resposta sair, então
+ * um GET logo em seguida já não recebe o ETag antigo.
+ */
+export async function invalidateCatalog(reason: string) {
+  if (reason !== "promotion_boundary") await bumpCatalogVersion();
+  entries.clear();
+  nextBoundary = undefined;
+  stats.invalidations++;
+  stats.lastInvalidatedAt = new Date();
+  stats.lastInvalidationReason = reason;
+}
+
+function readEntry(key: string): Entry | null {
+  const now = Date.now();
+  if (nextBoundary && now >= nextBoundary.getTime()) {
+    void invalidateCatalog("promotion_boundary");
+    return null;
+  }
+  const e = entries.get(key);
+  if (!e) return null;
+  if (now >= e.expiresAt) {
+    entries.delete(key);
+    return null;
+  }
+  // LRU simples: reinsere no fim
+  entries.delete(key);
+  entries.set(key, e);
+  return e;
+}
+
+function cacheKey(req: Request) {
+  const query = Object.keys(req.query)
+    .sort()
+    .map((k) => `${k}=${JSON.stringify(req.query[k])}`)
+    .join("&");
+  return `${req.baseUrl}${req.path}?${query}`;
+}
+
+/**
+ * Middleware para GETs públicos: responde do cache (X-Cache: HIT) ou
+ * guarda o JSON 200 que o handler produzir. Visões admin (?all=1) passam
+ * direto.
+ */
+export function publicCatalogCache(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (!ENABLED || req.method !== "GET" || req.query.all === "1") return next();
+
+  const key = cacheKey(req);
+  const hit = readEntry(key);
+  if (hit) {
+    stats.hits++;
+    res.set("X-Cache", "HIT");
+    res.set("ETag", hit.etag);
+    if (hit.cacheControl) res.set("Cache-Control", hit.cacheControl);
+    // res.send trata If-None-Match -> 304 com o ETag acima
+    return res.type("json").send(hit.body);
+  }
+  stats.misses++;
+  res.set("X-Cache", "MISS");
+
+  const json = res.json.bind(res);
+  res.json = (payload: any) => {
+    if (res.statusCode !== 200) return json(payload);
+    const body = JSON.stringify(payload);
+    const etag =
+      (res.get("ETag") as string | undefined) ||
+      `W/"${crypto.createHash("sha1").update(body).digest("base64url")}"`;
+    res.set("ETag", etag);
+    void store(key, {
+      body,
+      etag,
+      cacheControl: res.get("Cache-Control") as string | undefined,
+    });
+    return res.type("json").send(body);
+  };
+  next();
+}
+
+async function store(key: string, e: Omit<Entry, "expiresAt">) {
+  const generation = stats.invalidations;
+  let boundary: Date | null = null;
+  try {
+    boundary = await getNextBoundary();
+  } catch (err: any) {
+    console.warn("[catalog-cache] boundary lookup failed:", err?.message);
+    return; // sem saber a próxima virada, não arrisca guardar
+  }
+  // invalidado enquanto consultava: o corpo pode estar velho
+  if (generation !== stats.invalidations) return;
+
+  const ttlEnd = Date.now() + TTL_MS;
+  const expiresAt = boundary ? Math.min(ttlEnd, boundary.getTime()) : ttlEnd;
+  if (expiresAt <= Date.now()) return;
+
+  entries.set(key, { ...e, expiresAt });
+  stats.stores++;
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value as string;
+    entries.delete(oldest);
+    stats.evictions++;
+  }
+}
+
+/**
+ * Montado antes dos routers do catálogo: toda escrita (não-GET) que
+ * terminar com sucesso derruba o cache — antes de a resposta ser enviada.
+ * Rotas que não gravam nada (ex.: dry-run do import) marcam
+ * `res.locals.catalogUnchanged`.
+ */
+export function invalidateCatalogOnWrite(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (["GET", "HEAD", "OPTIONS"].includes(req.method)) return next();
+  const end = res.end.bind(res) as (...args: any[]) => Response;
+  res.end = ((...args: any[]) => {
+    if (res.statusCode >= 400 || res.locals.catalogUnchanged)
+      return end(...args);
+    invalidateCatalog(`${req.method} ${req.baseUrl}${req.path}`).then(() =>
+      end(...args)
+    );
+    return res;
+  }) as Response["end"];
+  next();
+}
+
+export function catalogCacheStats() {
+  const total = stats.hits + stats.misses;
+  return {
+    enabled: ENABLED,
+    ttlMs: TTL_MS,
+    maxEntries: MAX_ENTRIES,
+    entries: entries.size,
+    ...stats,
+    hitRate: total ? Number((stats.hits / total).toFixed(4)) : null,
+    nextPromotionBoundary: nextBoundary ?? null,
+    keys: [...entries.keys()],
+  };
+}
+
+export function resetCatalogCacheStats() {
+  stats.hits = 0;
+  stats.misses = 0;
+  stats.stores = 0;
+  stats.evictions = 0;
+}
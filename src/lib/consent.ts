@@ -0,0 +1,92 @@
+// src/lib/consent.ts
+// Consentimento de marketing: ConsentEvent é o histórico (quem, quando, de
+// onde, IP) e Customer.marketingOptIn o estado atual. Só uma retirada
+// explícita revoga — checkout sem a caixa marcada não mexe no consentimento.
+import jwt from "jsonwebtoken";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+type Db = Prisma.TransactionClient;
+
+export type ConsentAction = "grant" | "withdraw";
+export type ConsentSource = "checkout" | "admin" | "unsubscribe" | "merge";
+
+export type ConsentContext = {
+  source: ConsentSource;
+  ip?: string | null;
+  userAgent?: string | null;
+  note?: string | null;
+  actor?: { id?: string; email?: string };
+};
+
+/** registra o evento e atualiza o estado atual do cliente */
+export async function recordConsent(
+  customerId: string,
+  action: ConsentAction,
+  ctx: ConsentContext,
+  db: Db = prisma
+) {
+  const customer = await db.customer.update({
+    where: { id: customerId },
+    data: { marketingOptIn: action === "grant" },
+    select: { email: true },
+  });
+  return db.consentEvent.create({
+    data: {
+      customerId,
+      action,
+      source: ctx.source,
+      email: customer.email,
+      ip: ctx.ip ?? null,
+      userAgent: ctx.userAgent?.slice(0, 500) ?? null,
+      note: ctx.note ?? null,
+      actorId: ctx.actor?.id ?? null,
+      actorEmail: ctx.actor?.email ?? null,
+    },
+  });
+}
+
+/** estado pelo histórico: vale o evento mais recente (null = sem histórico) */
+export async function consentFromLedger(customerId: string, db: Db = prisma) {
+  const last = await db.consentEvent.findFirst({
+    where: { customerId },
+    orderBy: { createdAt: "desc" },
+    select: { action: true },
+  });
+  return last ? last.action === "grant" : null;
+}
+
+/* ========== link de descadastro assinado ========== */
+
+function unsubscribeSecret() {
+  const secret = process.env.UNSUBSCRIBE_SECRET || process.env.JWT_SECRET;
+  if (!secret) throw new Error("JWT secret not set");
+  return secret;
+}
+
+/** sem expiração: o link precisa funcionar em qualquer email já enviado */
+export function signUnsubscribeToken(customerId: string): string {
+  return jwt.sign(
+    { sub: customerId, scope: "unsubscribe" },
+    unsubscribeSecret()
+  );
+}
+
+/** retorna o customerId do token, ou null se inválido */
+export function verifyUnsubscribeToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, unsubscribeSecret()) as any;
+    if (decoded?.scope !== "unsubscribe" || typeof decoded?.sub !== "string")
+      return null;
+    return decoded.sub;
+  } catch {
+    return null;
+  }
+}
+
+/** URL pública para colocar nos emails de marketing */
+export function unsubscribeUrl(customerId: string) {
+  const base = (process.env.PUBLIC_API_URL || "").replace(/\/$/, "");
+  const token = encodeURIComponent(signUnsubscribeToken(customerId));
+  return `${base}/customers/unsubscribe?token=${token}`;
+}
@@ -0,0 +1,57 @@
+// src/lib/csv.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CsvParseError, csvLine, parseCsv } from "./csv";
+
+const values = (text: string) => parseCsv(text).map((r) => r.values);
+
+describe("parseCsv", () => {
+  it("splits plain records on LF and CRLF", () => {
+    assert.deepEqual(values("a,b\r\n1,2\n3,4"), [
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("handles quoted commas, escaped quotes and empty fields", () => {
+    assert.deepEqual(values('name,note\n"Mop, large","say ""hi""",\n'), [
+      ["name", "note"],
+      ["Mop, large", 'say "hi"', ""],
+    ]);
+  });
+
+  it("keeps line breaks inside quotes and reports where records start", () => {
+    const recs = parseCsv('h\n"one\ntwo"\nthree\n');
+    assert.deepEqual(recs, [
+      { line: 1, values: ["h"] },
+      { line: 2, values: ["one\ntwo"] },
+      { line: 4, values: ["three"] },
+    ]);
+  });
+
+  it("skips blank lines and strips the Excel BOM", () => {
+    assert.deepEqual(parseCsv("\uFEFFslug\n\nmop\n\n"), [
+      { line: 1, values: ["slug"] },
+      { line: 3, values: ["mop"] },
+    ]);
+  });
+
+  it("rejects malformed quoting with the line number", () => {
+    assert.throws(
+      () => parseCsv('a\nb"c\n'),
+      (e: any) => e instanceof CsvParseError && e.line === 2
+    );
+    assert.throws(
+      () => parseCsv('a\n"open\nstill open'),
+      (e: any) => e instanceof CsvParseError && e.line === 2
+    );
+  });
+
+  it("round-trips csvLine output", () => {
+    const row = ["x", 'a "quoted", value', "multi\nline", "", 3];
+    assert.deepEqual(values(csvLine(row)), [
+      ["x", 'a "quoted", value', "multi\nline", "", "3"],
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+// src/lib/csv.ts
+// CSV mínimo (RFC 4180): aspas, "" escapado, quebras de linha dentro de
+// campos, CRLF e BOM do Excel.
+
+export function csvEscape(v: any) {
+  const s = String(v ?? "");
+  if (/[",\r\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+  return s;
+}
+
+export function csvLine(values: any[]) {
+  return values.map(csvEscape).join(",") + "\r\n";
+}
+
+export class CsvParseError extends Error {
+  constructor(public line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+  }
+}
+
+export type CsvRecord = { line: number; values: string[] };
+
+/**
+ * Texto -> registros, com o número da linha (1 = cabeçalho) onde cada
+ * registro começa. Linhas totalmente vazias são ignoradas.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const out: CsvRecord[] = [];
+  let values: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  let i = 0;
+
+  const endRecord = () => {
+    values.push(field);
+    if (values.length > 1 || values[0] !== "")
+      out.push({ line: start, values });
+    values = [];
+    field = "";
+  };
+
+  while (i < src.length) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+        i++;
+        continue;
+      }
+      if (ch === "\n") line++;
+      field += ch;
+      i++;
+      continue;
+    }
+    if (ch === '"') {
+      if (field !== "")
+        throw new CsvParseError(line, "unexpected quote inside field");
+      quoted = true;
+    } else if (ch === ",") {
+      values.push(field);
+      field = "";
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if (quoted) throw new CsvParseError(start, "unterminated quoted field");
+  if (field !== "" || values.length) endRecord();
+  return out;
+}
@@ -0,0 +1,264 @@
+// src/lib/customerMetrics.ts
+// Métricas de cliente calculadas a partir dos pedidos (nada é armazenado):
+// nº de pedidos, receita concluída, ticket médio, primeiro/último pedido,
+// intervalo típico de recompra e produtos mais pedidos. O mesmo filtro
+// serve para GET /customers e para os segmentos salvos.
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { normalizeTags } from "./customers";
+
+/** pedidos recusados/cancelados não contam como compra */
+const LOST = Prisma.sql`('CANCELLED', 'REFUSED')`;
+
+export type CustomerMetrics = {
+  orderCount: number;
+  completedCount: number;
+  completedRevenue: number;
+  avgOrderValue: number | null;
+  firstOrderAt: Date | null;
+  lastOrderAt: Date | null;
+  /** mediana (dias) entre pedidos consecutivos; null com menos de 2 pedidos */
+  reorderIntervalDays: number | null;
+};
+
+/** =========================
+ *  Filtro (query string ou JSON do segmento)
+ *  ========================= */
+const boolish = z.preprocess(
+  (v) =>
+    v === "1" || v === "true" ? true : v === "0" || v === "false" ? false : v,
+  z.boolean()
+);
+
+const tagList = z.preprocess(
+  (v) => (typeof v === "string" ? v.split(",") : v),
+  z.array(z.string().max(50)).max(20).transform(normalizeTags)
+);
+
+export const CustomerFilter = z
+  .object({
+    q: z.string().trim().max(200),
+    /** todas as tags ("vip,school district") */
+    tag: tagList,
+    optIn: boolish,
+    minOrders: z.coerce.number().int().min(0),
+    maxOrders: z.coerce.number().int().min(0),
+    minRevenue: z.coerce.number().min(0),
+    /** sem pedido nos últimos N dias (inclui quem nunca pediu) */
+    noOrderInDays: z.coerce.number().int().positive(),
+    /** pediu nos últimos N dias */
+    orderedWithinDays: z.coerce.number().int().positive(),
+  })
+  .partial();
+
+export type CustomerFilter = z.infer<typeof CustomerFilter>;
+
+export const SORT_KEYS = {
+  createdAt: Prisma.raw(`"createdAt"`),
+  name: Prisma.raw(`lower("name")`),
+  orderCount: Prisma.raw(`"orderCount"`),
+  completedRevenue: Prisma.raw(`"completedRevenue"`),
+  avgOrderValue: Prisma.raw(`"avgOrderValue"`),
+  firstOrderAt: Prisma.raw(`"firstOrderAt"`),
+  lastOrderAt: Prisma.raw(`"lastOrderAt"`),
+  reorderIntervalDays: Prisma.raw(`"reorderIntervalDays"`),
+};
+
+export type CustomerSort = keyof typeof SORT_KEYS;
+
+export const CustomerSortShape = z.object({
+  sort: z
+    .enum(Object.keys(SORT_KEYS) as [CustomerSort, ...CustomerSort[]])
+    .default("createdAt"),
+  dir: z.enum(["asc", "desc"]).default("desc"),
+});
+
+function daysAgo(n: number) {
+  return new Date(Date.now() - n * 86_400_000);
+}
+
+function filterSql(f: CustomerFilter) {
+  const conds: Prisma.Sql[] = [];
+  if (f.q) {
+    const like = `%${f.q}%`;
+    conds.push(
+      Prisma.sql`("name" ILIKE ${like} OR "email" ILIKE ${like} OR "phone" ILIKE ${like})`
+    );
+  }
+  if (f.tag?.length) conds.push(Prisma.sql`"tags" @> ${f.tag}::text[]`);
+  if (f.optIn !== undefined)
+    conds.push(Prisma.sql`"marketingOptIn" = ${f.optIn}`);
+  if (f.minOrders !== undefined)
+    conds.push(Prisma.sql`"orderCount" >= ${f.minOrders}`);
+  if (f.maxOrders !== undefined)
+    conds.push(Prisma.sql`"orderCount" <= ${f.maxOrders}`);
+  if (f.minRevenue !== undefined)
+    conds.push(Prisma.sql`"completedRevenue" >= ${f.minRevenue}`);
+  if (f.noOrderInDays)
+    conds.push(
+      Prisma.sql`("lastOrderAt" IS NULL OR "lastOrderAt" < ${daysAgo(
+        f.noOrderInDays
+      )})`
+    );
+  if (f.orderedWithinDays)
+    conds.push(Prisma.sql`"lastOrderAt" >= ${daysAgo(f.orderedWithinDays)}`);
+  return conds.length
+    ? Prisma.sql`WHERE ${Prisma.join(conds, " AND ")}`
+    : Prisma.empty;
+}
+
+/** clientes + métricas; `customerId` restringe a um só */
+function metricsTable(customerId?: string) {
+  const only = customerId
+    ? Prisma.sql`AND o."customerId" = ${customerId}`
+    : Prisma.empty;
+  return Prisma.sql`
+    WITH orders AS (
+      SELECT o."customerId", o."status", o."total", o."createdAt"
+        FROM "OrderInquiry" o
+       WHERE o."customerId" IS NOT NULL AND o."status" NOT IN ${LOST} ${only}
+    ),
+    totals AS (
+      SELECT "customerId",
+             count(*)::int AS "orderCount",
+             count(*) FILTER (WHERE "status" = 'COMPLETED')::int AS "completedCount",
+             coalesce(sum("total") FILTER (WHERE "status" = 'COMPLETED'), 0) AS "revenue",
+             min("createdAt") AS "firstOrderAt",
+             max("createdAt") AS "lastOrderAt"
+        FROM orders GROUP BY "customerId"
+    ),
+    gaps AS (
+      SELECT "customerId",
+             extract(epoch FROM "createdAt" - lag("createdAt")
+               OVER (PARTITION BY "customerId" ORDER BY "createdAt")) / 86400 AS "gap"
+        FROM orders
+    ),
+    intervals AS (
+      SELECT "customerId",
+             percentile_cont(0.5) WITHIN GROUP (ORDER BY "gap") AS "interval"
+        FROM gaps WHERE "gap" IS NOT NULL GROUP BY "customerId"
+    )
+    SELECT c."id", c."name", c."email", c."phone", c."tags",
+           c."marketingOptIn", c."createdAt",
+           coalesce(t."orderCount", 0) AS "orderCount",
+           coalesce(t."completedCount", 0) AS "completedCount",
+           round(coalesce(t."revenue", 0), 2)::float8 AS "completedRevenue",
+           round(t."revenue" / nullif(t."completedCount", 0), 2)::float8 AS "avgOrderValue",
+           t."firstOrderAt", t."lastOrderAt",
+           round(i."interval"::numeric, 1)::float8 AS "reorderIntervalDays"
+      FROM "Contact" c
+      LEFT JOIN totals t ON t."customerId" = c."id"
+      LEFT JOIN intervals i ON i."customerId" = c."id"
+  `;
+}
+
+type MetricsRow = CustomerMetrics & { id: string; total: number };
+
+function pickMetrics(r: MetricsRow): CustomerMetrics {
+  return {
+    orderCount: r.orderCount,
+    completedCount: r.completedCount,
+    completedRevenue: r.completedRevenue,
+    avgOrderValue: r.avgOrderValue,
+    firstOrderAt: r.firstOrderAt,
+    lastOrderAt: r.lastOrderAt,
+    reorderIntervalDays: r.reorderIntervalDays,
+  };
+}
+
+/**
+ * Página de clientes que casam com o filtro, na ordem pedida.
+ * Retorna ids + métricas; quem chama busca o resto com o Prisma.
+ */
+export async function queryCustomerMetrics(opts: {
+  filter: CustomerFilter;
+  sort: CustomerSort;
+  dir: "asc" | "desc";
+  skip: number;
+  take: number;
+}) {
+  const dir = Prisma.raw(opts.dir === "asc" ? "ASC" : "DESC");
+  const rows = await prisma.$queryRaw<MetricsRow[]>`
+    SELECT *, count(*) OVER ()::int AS "total"
+      FROM (${metricsTable()}) m
+      ${filterSql(opts.filter)}
+     ORDER BY ${SORT_KEYS[opts.sort]} ${dir} NULLS LAST, "id" ASC
+     LIMIT ${opts.take} OFFSET ${opts.skip}
+  `;
+  let total = rows[0]?.total ?? 0;
+  // página além do fim: o count(*) OVER () não vem em linha nenhuma
+  if (!rows.length && opts.skip > 0) {
+    const [row] = await prisma.$queryRaw<Array<{ n: number }>>`
+      SELECT count(*)::int AS "n" FROM (${metricsTable()}) m
+      ${filterSql(opts.filter)}
+    `;
+    total = row?.n ?? 0;
+  }
+  return {
+    total,
+    rows: rows.map((r) => ({ id: r.id, metrics: pickMetrics(r) })),
+  };
+}
+
+/** métricas completas de um cliente, com os produtos mais pedidos */
+export async function customerMetrics(customerId: string, topN = 5) {
+  const [row] = await prisma.$queryRaw<MetricsRow[]>`
+    SELECT *, 1 AS "total" FROM (${metricsTable(customerId)}) m
+     WHERE "id" = ${customerId}
+  `;
+  if (!row) return null;
+
+  const topProducts = await prisma.$queryRaw<
+    Array<{
+      productId: string;
+      name: string;
+      slug: string;
+      quantity: number;
+      orders: number;
+      revenue: number;
+    }>
+  >`
+    SELECT i."productId", p."name", p."slug",
+           sum(i."quantity")::int AS "quantity",
+           count(DISTINCT o."id")::int AS "orders",
+           round(sum(i."quantity" * i."unitPrice"), 2)::float8 AS "revenue"
+      FROM "OrderItem" i
+      JOIN "OrderInquiry" o ON o."id" = i."orderId"
+      JOIN "Product" p ON p."id" = i."productId"
+     WHERE o."customerId" = ${customerId} AND o."status" NOT IN ${LOST}
+     GROUP BY i."productId", p."name", p."slug"
+     ORDER BY "quantity" DESC, "orders" DESC
+     LIMIT ${topN}
+  `;
+
+  return { ...pickMetrics(row), topProducts };
+}
+
+/** página de clientes (com endereços) + métricas, na ordem pedida */
+export async function customerPage(opts: {
+  filter: CustomerFilter;
+  sort: CustomerSort;
+  dir: "asc" | "desc";
+  page: number;
+  pageSize: number;
+}) {
+  const { total, rows } = await queryCustomerMetrics({
+    filter: opts.filter,
+    sort: opts.sort,
+    dir: opts.dir,
+    skip: (opts.page - 1) * opts.pageSize,
+    take: opts.pageSize,
+  });
+  const list = await prisma.customer.findMany({
+    where: { id: { in: rows.map((r) => r.id) } },
+    include: { addresses: { orderBy: { createdAt: "desc" } } },
+  });
+  const byId = new Map(list.map((c) => [c.id, c]));
+  return {
+    total,
+    rows: rows
+      .filter((r) => byId.has(r.id))
+      .map((r) => ({ ...byId.get(r.id)!, metrics: r.metrics })),
+  };
+}
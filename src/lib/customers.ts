@@ -0,0 +1,147 @@
+// src/lib/customers.ts
+// CRM: normalização de tags e merge de clientes duplicados.
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { consentFromLedger } from "./consent";
+
+type Db = Prisma.TransactionClient;
+
+export type CustomerActor = { id?: string; email?: string } | undefined;
+
+/** tags em minúsculas, sem espaços extras nem repetidas */
+export function normalizeTags(tags: string[]) {
+  return [
+    ...new Set(
+      tags
+        .map((t) => t.trim().replace(/\s+/g, " ").toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Cliente para um email de pedido: o dono atual do email ou, se ele foi
+ * absorvido por um merge, o cliente que ficou com os pedidos.
+ */
+export async function customerIdForEmail(email: string, db: Db = prisma) {
+  const own = await db.customer.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+  if (own) return own.id;
+  const merged = await db.customerMerge.findFirst({
+    where: { sourceEmail: email },
+    orderBy: { createdAt: "desc" },
+    select: { targetId: true },
+  });
+  return merged?.targetId ?? null;
+}
+
+export class CustomerMergeError extends Error {
+  constructor(
+    public code: "same_customer" | "not_found" | "source_not_found",
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Absorve `sourceId` em `targetId`: pedidos e endereços mudam de dono, tags
+ * são unidas, campos vazios do destino herdam os da origem, notas são
+ * concatenadas. O histórico de consentimento também muda de dono e o
+ * evento mais recente decide o opt-in. A origem é apagada e o snapshot dela
+ * fica em CustomerMerge.
+ */
+export async function mergeCustomers(
+  targetId: string,
+  sourceId: string,
+  actor: CustomerActor
+) {
+  if (targetId === sourceId)
+    throw new CustomerMergeError(
+      "same_customer",
+      "Cannot merge a customer into itself."
+    );
+
+  return prisma.$transaction(async (tx) => {
+    const [target, source] = await Promise.all([
+      tx.customer.findUnique({ where: { id: targetId } }),
+      tx.customer.findUnique({
+        where: { id: sourceId },
+        include: {
+          addresses: { select: { id: true } },
+          orders: { select: { id: true } },
+        },
+      }),
+    ]);
+    if (!target)
+      throw new CustomerMergeError("not_found", "Customer not found.");
+    if (!source)
+      throw new CustomerMergeError(
+        "source_not_found",
+        "Customer to merge not found."
+      );
+
+    const orders = await tx.orderInquiry.updateMany({
+      where: { customerId: sourceId },
+      data: { customerId: targetId },
+    });
+    const addresses = await tx.address.updateMany({
+      where: { customerId: sourceId },
+      data: { customerId: targetId },
+    });
+    await tx.consentEvent.updateMany({
+      where: { customerId: sourceId },
+      data: { customerId: targetId },
+    });
+    const ledgerOptIn = await consentFromLedger(targetId, tx);
+
+    const sourceNote = source.note?.trim();
+    const notes = [
+      target.note?.trim(),
+      sourceNote && `[merged from ${source.email}] ${sourceNote}`,
+    ].filter(Boolean);
+
+    const {
+      addresses: sourceAddresses,
+      orders: sourceOrders,
+      ...fields
+    } = source;
+    const merge = await tx.customerMerge.create({
+      data: {
+        targetId,
+        sourceId,
+        sourceEmail: source.email,
+        sourceSnapshot: {
+          ...fields,
+          createdAt: source.createdAt.toISOString(),
+          updatedAt: source.updatedAt.toISOString(),
+          addressIds: sourceAddresses.map((a) => a.id),
+          orderIds: sourceOrders.map((o) => o.id),
+        },
+        movedOrders: orders.count,
+        movedAddresses: addresses.count,
+        actorId: actor?.id ?? null,
+        actorEmail: actor?.email ?? null,
+      },
+    });
+
+    await tx.customer.delete({ where: { id: sourceId } });
+
+    const customer = await tx.customer.update({
+      where: { id: targetId },
+      data: {
+        phone: target.phone || source.phone,
+        company: target.company || source.company,
+        marketingOptIn:
+          ledgerOptIn ?? (target.marketingOptIn || source.marketingOptIn),
+        defaultAddressId: target.defaultAddressId ?? source.defaultAddressId,
+        tags: normalizeTags([...target.tags, ...source.tags]),
+        note: notes.length ? notes.join("\n\n") : null,
+      },
+    });
+
+    return { customer, merge };
+  });
+}
@@ -0,0 +1,161 @@
+// src/lib/emailQueue.ts
+// Worker da fila de e-mails (EmailJob): envia pendentes com backoff
+// exponencial; após maxAttempts o job fica FAILED para reenvio manual.
+import { prisma } from "./prisma";
+import { sendEmail } from "./mailer";
+
+export type EmailJobStatus = "PENDING" | "SENDING" | "SENT" | "FAILED";
+
+const BASE_DELAY_MS = Number(process.env.EMAIL_RETRY_BASE_MS || 30_000);
+const MAX_DELAY_MS = Number(process.env.EMAIL_RETRY_MAX_MS || 60 * 60_000);
+/** SENDING há mais que isso = worker caiu no meio do envio; volta pra fila */
+const STALE_SENDING_MS = 5 * 60_000;
+const BATCH_SIZE = 20;
+
+/** 30s, 1min, 2min, 4min… limitado a MAX_DELAY_MS */
+export function backoffDelay(attempt: number): number {
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+}
+
+async function processJob(id: string, now: Date) {
+  // claim otimista: só um worker pega o job
+  const claim = await prisma.emailJob.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: "PENDING", nextAttemptAt: { lte: now } },
+        {
+          status: "SENDING",
+          updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) },
+        },
+      ],
+    },
+    data: { status: "SENDING", attempts: { increment: 1 } },
+  });
+  if (claim.count === 0) return null;
+
+  const job = await prisma.emailJob.findUnique({ where: { id } });
+  if (!job) return null;
+
+  const result = await sendEmail({
+    to: job.to,
+    subject: job.subject,
+    html: job.html,
+    replyTo: job.replyTo ?? undefined,
+  });
+
+  if (result.ok) {
+    await prisma.emailJob.update({
+      where: { id },
+      data: {
+        status: "SENT",
+        sentAt: new Date(),
+        lastError: null,
+        transport: result.transport,
+        providerId: result.id ?? null,
+      },
+    });
+    return "SENT" as const;
+  }
+
+  const failed = job.attempts >= job.maxAttempts;
+  await prisma.emailJob.update({
+    where: { id },
+    data: {
+      status: failed ? "FAILED" : "PENDING",
+      lastError: [result.reason, result.status, result.error]
+        .filter(Boolean)
+        .join(" ")
+        .slice(0, 2000),
+      transport: result.transport,
+      nextAttemptAt: new Date(Date.now() + backoffDelay(job.attempts)),
+    },
+  });
+  if (failed)
+    console.warn(
+      `[email-queue] job ${id} failed permanently after ${job.attempts} attempt(s)`
+    );
+  return failed ? ("FAILED" as const) : ("RETRY" as const);
+}
+
+let running: Promise<void> | null = null;
+
+/** processa os jobs vencidos; chamadas concorrentes reaproveitam a mesma passada */
+export function processEmailQueue(): Promise<void> {
+  if (running) return running;
+  running = (async () => {
+    try {
+      const now = new Date();
+      const due = await prisma.emailJob.findMany({
+        where: {
+          OR: [
+            { status: "PENDING", nextAttemptAt: { lte: now } },
+            {
+              status: "SENDING",
+              updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) },
+            },
+          ],
+        },
+        orderBy: { nextAttemptAt: "asc" },
+        take: BATCH_SIZE,
+        select: { id: true },
+      });
+      for (const j of due) {
+        try {
+          await processJob(j.id, now);
+        } catch (e: any) {
+          console.error(`[email-queue] job ${j.id} crashed:`, e?.message || e);
+        }
+      }
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
+
+/** dispara uma passada sem bloquear quem chamou (ex.: logo após enfileirar) */
+export function kickEmailQueue() {
+  setImmediate(() => {
+    processEmailQueue().catch((e) =>
+      console.warn("[email-queue] kick failed:", e?.message || e)
+    );
+  });
+}
+
+/** recoloca um job na fila (reenvio manual) */
+export async function requeueEmailJob(id: string) {
+  const job = await prisma.emailJob.update({
+    where: { id },
+    data: {
+      status: "PENDING",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+    },
+  });
+  kickEmailQueue();
+  return job;
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+/** EMAIL_QUEUE=0 desliga; EMAIL_QUEUE_TICK_MS define o intervalo (default 15s) */
+export function startEmailWorker() {
+  if (timer || process.env.EMAIL_QUEUE === "0") return;
+  const every = Math.max(
+    1000,
+    Number(process.env.EMAIL_QUEUE_TICK_MS || 15_000)
+  );
+  timer = setInterval(() => {
+    processEmailQueue().catch((e) =>
+      console.warn("[email-queue] tick failed:", e?.message || e)
+    );
+  }, every);
+  timer.unref?.();
+}
+
+export function stopEmailWorker() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -1,10 +1,21 @@
 // backend/src/lib/mailer.ts
-// Robust Resend mailer: never throws to caller; logs clearly.
+// Robust mailer with pluggable transports: never throws to caller; logs clearly.
+// Order emails are persisted as EmailJob rows and delivered by lib/emailQueue.
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import nodemailer from "nodemailer";
+import MailComposer from "nodemailer/lib/mail-composer";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+type Db = Prisma.TransactionClient;
 
 export type EmailOrderItem = {
   productId: string;
   productName?: string | null;
   variantName?: string | null;
+  sku?: string | null;
   quantity: number;
   unitPrice: number; // normalized number
 };
@@ -32,19 +43,102 @@ export type EmailOrder = {
   note?: string | null;
   subtotal: number;
   total: number;
+  currency?: string; // ISO 4217 (OrderInquiry.currency); default USD
   items: EmailOrderItem[];
 };
 
-function money(n: number) {
+/** Pedido como vem do Prisma (include customer/address/items.product/variant) */
+export type OrderForEmail = {
+  id: string;
+  createdAt: Date;
+  status: string;
+  subtotal: unknown; // Prisma.Decimal
+  total: unknown;
+  currency?: string | null;
+  note?: string | null;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string | null;
+  customer?: {
+    name: string;
+    email: string;
+    phone?: string | null;
+    company?: string | null;
+    marketingOptIn?: boolean;
+  } | null;
+  address?: {
+    line1: string;
+    line2?: string | null;
+    district?: string | null;
+    city?: string | null;
+    state?: string | null;
+    postalCode?: string | null;
+    country?: string | null;
+  } | null;
+  items: Array<{
+    productId: string;
+    quantity: number;
+    unitPrice: unknown;
+    variantName?: string | null;
+    product?: { name: string } | null;
+    variant?: { name: string; sku?: string | null } | null;
+  }>;
+};
+
+/** Normaliza o pedido do banco para o formato usado por e-mail e PDF */
+export function toEmailOrder(o: OrderForEmail): EmailOrder {
+  return {
+    id: o.id,
+    createdAt: o.createdAt.toISOString(),
+    status: o.status,
+    subtotal: Number(o.subtotal),
+    total: Number(o.total),
+    currency: o.currency || "USD",
+    customer: {
+      name: o.customer?.name || o.customerName || "",
+      email: o.customer?.email || o.customerEmail || "",
+      phone: o.customer?.phone || o.customerPhone || null,
+      company: o.customer?.company || null,
+      marketingOptIn: !!o.customer?.marketingOptIn,
+    },
+    address: o.address
+      ? {
+          line1: o.address.line1,
+          line2: o.address.line2,
+          district: o.address.district,
+          city: o.address.city,
+          state: o.address.state,
+          postalCode: o.address.postalCode,
+          country: o.address.country,
+        }
+      : null,
+    note: o.note || null,
+    items: o.items.map((it) => ({
+      productId: it.productId,
+      productName: it.product?.name || null,
+      variantName: it.variantName || it.variant?.name || null,
+      sku: it.variant?.sku || null,
+      quantity: it.quantity,
+      unitPrice: Number(it.unitPrice),
+    })),
+  };
+}
+
+export function money(n: number, currency = "USD") {
   if (!Number.isFinite(n)) n = 0;
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 2,
-  }).format(n);
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: 2,
+    }).format(n);
+  } catch {
+    // código fora do ISO 4217: mostra o código como veio
+    return `${currency} ${n.toFixed(2)}`;
+  }
 }
 
-function htmlEscape(s: string) {
+export function htmlEscape(s: string) {
   return (s || "")
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
@@ -61,7 +155,15 @@ function toPlainText(html: string) {
     .trim();
 }
 
-function orderHtml(o: EmailOrder) {
+/** Moldura comum dos e-mails (mesma fonte/largura do orderHtml) */
+function emailLayout(inner: string) {
+  return `<div style="font-family:Inter,system-ui,Segoe UI,Roboto,Helvetica,Arial,sans-serif;max-width:680px;margin:0 auto;">
+               ${inner}
+             </div>`;
+}
+
+/** heading: false omite o título "New Quote Request" (e-mails de status) */
+function orderHtml(o: EmailOrder, { heading = true } = {}) {
   const addrHtml = o.address
     ? `
       <p style="margin:4px 0 0 0;font-size:13px;color:#444;">
@@ -111,7 +213,7 @@ function orderHtml(o: EmailOrder) {
 
   return `
   <div style="font-family:Inter,system-ui,Segoe UI,Roboto,Helvetica,Arial,sans-serif;max-width:680px;margin:0 auto;">
-    <h2 style="margin:0 0 8px 0;color:#111;">New Quote Request — #${htmlEscape(o.id)}</h2>
+    ${heading ? `<h2 style="margin:0 0 8px 0;color:#111;">New Quote Request — #${htmlEscape(o.id)}</h2>` : ""}
     <div style="font-size:12px;color:#666;margin-bottom:16px;">${createdLocal}</div>
 
     <table cellpadding="0" cellspacing="0" style="width:100%;border-collapse:collapse;border:1px solid #eee;border-radius:10px;overflow:hidden;">
@@ -154,7 +256,175 @@ function orderHtml(o: EmailOrder) {
   </div>`;
 }
 
-async function sendResendEmail({
+/**
+ * ==============================
+ * TRANSPORTS (MAIL_TRANSPORT=resend|smtp|file|none)
+ * ==============================
+ */
+export type MailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+};
+
+export type SendResult = {
+  ok: boolean;
+  transport: string;
+  id?: string;
+  reason?: string;
+  status?: number;
+  error?: string;
+};
+
+export interface MailTransport {
+  name: string;
+  send(msg: MailMessage): Promise<SendResult>;
+}
+
+function resendTransport(apiKey: string): MailTransport {
+  const apiUrl = process.env.RESEND_API_URL || "https://api.resend.com/emails";
+  return {
+    name: "resend",
+    async send(msg) {
+      const body = {
+        from: msg.from,
+        to: msg.to,
+        subject: msg.subject,
+        html: msg.html,
+        text: msg.text,
+        ...(msg.replyTo ? { reply_to: msg.replyTo } : {}),
+      };
+
+      const resp = await fetch(apiUrl, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      const txt = await resp.text().catch(() => "");
+      let parsed: any = null;
+      try {
+        parsed = JSON.parse(txt);
+      } catch {
+        // keep txt raw
+      }
+
+      if (!resp.ok) {
+        console.warn("[mailer] Resend error:", resp.status, resp.statusText, parsed || txt);
+        return {
+          ok: false,
+          transport: "resend",
+          status: resp.status,
+          reason: "PROVIDER_ERROR",
+          error: typeof parsed?.message === "string" ? parsed.message : txt,
+        };
+      }
+      return { ok: true, transport: "resend", id: parsed?.id };
+    },
+  };
+}
+
+function smtpTransport(): MailTransport {
+  const port = Number(process.env.SMTP_PORT || 587);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE
+      ? process.env.SMTP_SECURE === "1"
+      : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || "" }
+      : undefined,
+  });
+  return {
+    name: "smtp",
+    async send(msg) {
+      const info = await transporter.sendMail(msg);
+      return { ok: true, transport: "smtp", id: info.messageId };
+    },
+  };
+}
+
+/** grava cada mensagem como .eml — útil em dev/CI, sem serviço externo */
+function fileOutboxTransport(dir: string): MailTransport {
+  return {
+    name: "file",
+    async send(msg) {
+      const raw = await new MailComposer(msg).compile().build();
+      await fs.mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const file = path.join(
+        dir,
+        `${stamp}-${crypto.randomBytes(4).toString("hex")}.eml`
+      );
+      await fs.writeFile(file, raw);
+      return { ok: true, transport: "file", id: file };
+    },
+  };
+}
+
+function noopTransport(reason: string): MailTransport {
+  return {
+    name: "none",
+    async send() {
+      return { ok: false, transport: "none", reason };
+    },
+  };
+}
+
+let cachedTransport: MailTransport | null = null;
+
+/**
+ * Escolhe o transporte por env. Sem MAIL_TRANSPORT: Resend se houver
+ * RESEND_API_KEY; senão desliga (com aviso). A outbox em arquivo só com
+ * MAIL_TRANSPORT=file explícito.
+ */
+export function getMailTransport(): MailTransport {
+  if (cachedTransport) return cachedTransport;
+
+  const apiKey = process.env.RESEND_API_KEY || "";
+  const wanted = (process.env.MAIL_TRANSPORT || "").trim().toLowerCase();
+  const kind = wanted || (apiKey ? "resend" : "none");
+
+  if (kind === "resend" && apiKey) {
+    cachedTransport = resendTransport(apiKey);
+  } else if (kind === "smtp" && process.env.SMTP_HOST) {
+    cachedTransport = smtpTransport();
+  } else if (kind === "file") {
+    cachedTransport = fileOutboxTransport(
+      path.resolve(process.env.MAIL_OUTBOX_DIR || "outbox")
+    );
+  } else {
+    const reason =
+      kind === "resend" || !wanted
+        ? "NO_API_KEY"
+        : kind === "smtp"
+        ? "NO_SMTP_HOST"
+        : "DISABLED";
+    console.warn(
+      wanted
+        ? `[mailer] transport "${kind}" unavailable (${reason}) — emails disabled.`
+        : "[mailer] RESEND_API_KEY missing and MAIL_TRANSPORT not set — emails disabled."
+    );
+    cachedTransport = noopTransport(reason);
+  }
+  console.log(`[mailer] using transport: ${cachedTransport.name}`);
+  return cachedTransport;
+}
+
+/** troca o transporte em runtime (testes/scripts) */
+export function setMailTransport(t: MailTransport | null) {
+  cachedTransport = t;
+}
+
+/** envio direto pelo transporte (usado pelo worker da fila) */
+export async function sendEmail({
   to,
   subject,
   html,
@@ -164,91 +434,194 @@ async function sendResendEmail({
   subject: string;
   html: string;
   replyTo?: string;
-}) {
-  const apiKey = process.env.RESEND_API_KEY || "";
-  const from = process.env.EMAIL_FROM || "Listo365 <onboarding@resend.dev>";
-  const apiUrl = process.env.RESEND_API_URL || "https://api.resend.com/emails";
-
-  if (!apiKey) {
-    console.warn("[mailer] RESEND_API_KEY missing — emails disabled.");
-    return { ok: false, reason: "NO_API_KEY" };
-  }
-
-  const body = {
-    from,
+}): Promise<SendResult> {
+  const transport = getMailTransport();
+  const msg: MailMessage = {
+    from: process.env.EMAIL_FROM || "Listo365 <onboarding@resend.dev>",
     to: Array.isArray(to) ? to : [to],
     subject,
     html,
     text: toPlainText(html),
-    ...(replyTo ? { reply_to: replyTo } : {}),
+    ...(replyTo ? { replyTo } : {}),
   };
 
   try {
-    const resp = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(body),
-    });
-
-    const txt = await resp.text().catch(() => "");
-    let parsed: any = null;
-    try {
-      parsed = JSON.parse(txt);
-    } catch {
-      // keep txt raw
-    }
-
-    if (!resp.ok) {
-      console.warn("[mailer] Resend error:", resp.status, resp.statusText, parsed || txt);
-      return { ok: false, status: resp.status, statusText: resp.statusText, body: parsed || txt };
-    }
-
-    console.log("[mailer] Resend ok:", parsed || txt);
-    return { ok: true, body: parsed || txt };
+    const r = await transport.send(msg);
+    if (r.ok) console.log(`[mailer] ${r.transport} ok:`, r.id ?? "");
+    return r;
   } catch (e: any) {
-    console.warn("[mailer] Resend request failed:", e?.message || e);
-    return { ok: false, reason: "FETCH_FAILED", error: String(e?.message || e) };
+    console.warn(`[mailer] ${transport.name} send failed:`, e?.message || e);
+    return {
+      ok: false,
+      transport: transport.name,
+      reason: "SEND_FAILED",
+      error: String(e?.message || e),
+    };
   }
 }
 
+/**
+ * ==============================
+ * FILA (EmailJob) — o worker em lib/emailQueue.ts faz o envio com retry
+ * ==============================
+ */
+export type EmailJobInput = {
+  kind: string;
+  to: string | string[];
+  subject: string;
+  html: string;
+  replyTo?: string;
+  orderId?: string | null;
+};
+
+/** `db` = transação do chamador: o job só existe se a escrita dele commitar */
+export async function enqueueEmail(job: EmailJobInput, db: Db = prisma) {
+  const created = await db.emailJob.create({
+    data: {
+      kind: job.kind,
+      to: Array.isArray(job.to) ? job.to : [job.to],
+      subject: job.subject,
+      html: job.html,
+      replyTo: job.replyTo ?? null,
+      orderId: job.orderId ?? null,
+    },
+    select: { id: true },
+  });
+  return created.id;
+}
+
 /**
  * Public API used by orders route
  */
-export async function sendNewOrderEmails(order: EmailOrder) {
+export async function sendNewOrderEmails(order: EmailOrder, db: Db = prisma) {
   const html = orderHtml(order);
   const replyTo = order.customer?.email || undefined;
+  const jobIds: string[] = [];
 
   // Company notification
   const companyTo = process.env.COMPANY_ORDERS_EMAIL || "";
   if (!companyTo) {
     console.warn("[mailer] COMPANY_ORDERS_EMAIL not set — skipping company email.");
   } else {
-    await sendResendEmail({
-      to: companyTo,
-      subject: `New Quote — #${order.id}`,
-      html,
-      replyTo,
-    });
+    jobIds.push(
+      await enqueueEmail(
+        {
+          kind: "order_new_company",
+          orderId: order.id,
+          to: companyTo,
+          subject: `New Quote — #${order.id}`,
+          html,
+          replyTo,
+        },
+        db
+      )
+    );
   }
 
   // Customer confirmation (best-effort)
   const customerTo = order.customer?.email;
   if (customerTo) {
-    await sendResendEmail({
-      to: customerTo,
-      subject: `We received your quote request — #${order.id}`,
-      html: `<div style="font-family:Inter,system-ui,Segoe UI,Roboto,Helvetica,Arial,sans-serif;max-width:680px;margin:0 auto;">
-               <p>Hello ${htmlEscape(order.customer.name)},</p>
+    jobIds.push(
+      await enqueueEmail(
+        {
+          kind: "order_new_customer",
+          orderId: order.id,
+          to: customerTo,
+          subject: `We received your quote request — #${order.id}`,
+          html: emailLayout(`<p>Hello ${htmlEscape(order.customer.name)},</p>
                <p>Thanks! We’ve received your request. Our team will get back to you shortly.</p>
                <hr style="border:none;border-top:1px solid #eee;margin:16px 0;"/>
-               ${html}
-             </div>`,
-      replyTo: process.env.COMPANY_ORDERS_EMAIL || undefined,
-    });
+               ${html}`),
+          replyTo: process.env.COMPANY_ORDERS_EMAIL || undefined,
+        },
+        db
+      )
+    );
   }
+  return jobIds;
+}
+
+/**
+ * Templates de mudança de status (cliente)
+ */
+export type NotifiableStatus =
+  | "IN_PROGRESS"
+  | "COMPLETED"
+  | "REFUSED"
+  | "CANCELLED";
+
+const STATUS_TEMPLATES: Record<
+  NotifiableStatus,
+  { subject: (id: string) => string; headline: string; body: string }
+> = {
+  IN_PROGRESS: {
+    subject: (id) => `Your quote is being processed — #${id}`,
+    headline: "We’re working on your order",
+    body: "Good news! Our team has started processing your request. We’ll let you know as soon as it’s ready.",
+  },
+  COMPLETED: {
+    subject: (id) => `Your order is complete — #${id}`,
+    headline: "Your order is complete",
+    body: "Your order has been completed. Thank you for choosing us — we look forward to working with you again.",
+  },
+  REFUSED: {
+    subject: (id) => `Update on your quote request — #${id}`,
+    headline: "We couldn’t fulfill this request",
+    body: "Unfortunately we’re unable to move forward with this quote request. Feel free to reply to this email if you have any questions.",
+  },
+  CANCELLED: {
+    subject: (id) => `Your order was cancelled — #${id}`,
+    headline: "Your order was cancelled",
+    body: "This order has been cancelled. If this wasn’t expected, just reply to this email and we’ll help you out.",
+  },
+};
+
+export function isNotifiableStatus(s: string): s is NotifiableStatus {
+  return Object.prototype.hasOwnProperty.call(STATUS_TEMPLATES, s);
+}
+
+function statusHtml(
+  order: EmailOrder,
+  status: NotifiableStatus,
+  message?: string | null
+) {
+  const t = STATUS_TEMPLATES[status];
+  const messageBlock = message
+    ? `<div style="border:1px solid #eee;border-radius:10px;padding:10px;margin:16px 0;">
+         <div style="font-size:12px;color:#666;font-weight:600;margin-bottom:4px;">Message from our team</div>
+         <div style="font-size:13px;color:#222;white-space:pre-wrap;">${htmlEscape(message)}</div>
+       </div>`
+    : "";
+
+  return emailLayout(`<h2 style="margin:0 0 8px 0;color:#111;">${htmlEscape(t.headline)}</h2>
+               <p>Hello ${htmlEscape(order.customer.name)},</p>
+               <p>${htmlEscape(t.body)}</p>
+               ${messageBlock}
+               <p style="font-size:13px;color:#444;">Order #${htmlEscape(order.id)} · Total ${money(order.total)}</p>
+               <hr style="border:none;border-top:1px solid #eee;margin:16px 0;"/>
+               ${orderHtml(order, { heading: false })}`);
+}
+
+/**
+ * Enfileira a notificação de mudança de status para o cliente.
+ */
+export async function sendOrderStatusEmail(
+  order: EmailOrder,
+  status: NotifiableStatus,
+  message?: string | null
+) {
+  const to = order.customer?.email;
+  if (!to) return { ok: false, reason: "NO_RECIPIENT" };
+
+  const jobId = await enqueueEmail({
+    kind: "order_status",
+    orderId: order.id,
+    to,
+    subject: STATUS_TEMPLATES[status].subject(order.id),
+    html: statusHtml(order, status, message),
+    replyTo: process.env.COMPANY_ORDERS_EMAIL || undefined,
+  });
+  return { ok: true, jobId };
 }
 
 // Backward compatibility
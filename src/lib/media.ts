@@ -0,0 +1,189 @@
+// src/lib/media.ts
+// Derivados das fotos do catálogo (thumb/medium/large + WebP), gerados com
+// sharp a partir do original no storage e registrados em MediaAsset.
+import sharp from "sharp";
+import type { MediaAsset } from "@prisma/client";
+import { prisma } from "./prisma";
+import { getStorage } from "./storage";
+
+export const DERIVATIVE_SIZES = {
+  thumb: 200,
+  medium: 600,
+  large: 1200,
+} as const;
+
+export type DerivativeSize = keyof typeof DERIVATIVE_SIZES;
+
+type Derivative = { url: string; webp: string; width: number; height: number };
+type Derivatives = Partial<Record<DerivativeSize, Derivative>>;
+
+/** o que serializeProduct devolve no lugar da URL “crua” */
+export type ImageSet = {
+  url: string;
+  width: number | null;
+  height: number | null;
+  thumb: string;
+  medium: string;
+  large: string;
+  /** "…_thumb.jpg 200w, …_medium.jpg 600w, …" — null sem derivados */
+  srcset: string | null;
+  webpSrcset: string | null;
+};
+
+/** products/x/abc.png -> products/x/abc_thumb.png */
+function derivativeKey(key: string, size: DerivativeSize, ext: string) {
+  return key.replace(/\.[a-z0-9]+$/i, "") + `_${size}.${ext}`;
+}
+
+function derivativeKeys(key: string, d: Derivatives | null) {
+  const storage = getStorage();
+  return Object.values(d ?? {}).flatMap((x) =>
+    [x?.url, x?.webp]
+      .map((u) => (u ? storage.keyFromUrl(u) : null))
+      .filter((k): k is string => !!k && k !== key)
+  );
+}
+
+/**
+ * Gera (ou regenera) os derivados de uma URL do nosso storage.
+ * URLs externas e arquivos ausentes retornam null; falhas só geram log.
+ */
+export async function generateDerivatives(
+  url: string
+): Promise<MediaAsset | null> {
+  const storage = getStorage();
+  const key = storage.keyFromUrl(url);
+  if (!key) return null;
+
+  try {
+    const original = await storage.get(key);
+    if (!original) return null;
+
+    const meta = await sharp(original).metadata();
+    const contentType = `image/${meta.format === "jpg" ? "jpeg" : meta.format}`;
+    const derivatives: Derivatives = {};
+
+    // GIF (possivelmente animado) fica só com o original
+    if (meta.format !== "gif") {
+      const fallback = meta.hasAlpha ? "png" : "jpeg";
+      const ext = fallback === "png" ? "png" : "jpg";
+
+      for (const [size, width] of Object.entries(DERIVATIVE_SIZES) as [
+        DerivativeSize,
+        number
+      ][]) {
+        const base = sharp(original)
+          .rotate() // respeita EXIF
+          .resize({ width, withoutEnlargement: true });
+
+        const main = await (fallback === "png"
+          ? base.clone().png()
+          : base.clone().jpeg({ quality: 82, mozjpeg: true })
+        ).toBuffer({ resolveWithObject: true });
+        const webp = await base.clone().webp({ quality: 80 }).toBuffer();
+
+        const mainFile = await storage.put(
+          derivativeKey(key, size, ext),
+          main.data,
+          `image/${fallback}`
+        );
+        const webpFile = await storage.put(
+          derivativeKey(key, size, "webp"),
+          webp,
+          "image/webp"
+        );
+        derivatives[size] = {
+          url: mainFile.url,
+          webp: webpFile.url,
+          width: main.info.width,
+          height: main.info.height,
+        };
+      }
+    }
+
+    // formato do derivado pode mudar (ex.: ganhou transparência): limpa sobras
+    const previous = await prisma.mediaAsset.findUnique({ where: { url } });
+    const keep = new Set(derivativeKeys(key, derivatives));
+    for (const old of derivativeKeys(key, previous?.derivatives as any)) {
+      if (!keep.has(old)) await storage.remove(old).catch(() => {});
+    }
+
+    const data = {
+      key,
+      contentType,
+      width: meta.autoOrient?.width ?? meta.width ?? null,
+      height: meta.autoOrient?.height ?? meta.height ?? null,
+      derivatives: derivatives as any,
+    };
+    return await prisma.mediaAsset.upsert({
+      where: { url },
+      create: { url, ...data },
+      update: data,
+    });
+  } catch (e: any) {
+    console.warn(`[media] derivatives failed for ${url}:`, e?.message || e);
+    return null;
+  }
+}
+
+/** apaga derivados + registro; o original fica a cargo de quem chamou */
+export async function removeMedia(url: string) {
+  const asset = await prisma.mediaAsset.findUnique({ where: { url } });
+  if (!asset) return;
+  const storage = getStorage();
+  for (const k of derivativeKeys(asset.key, asset.derivatives as any)) {
+    await storage
+      .remove(k)
+      .catch((e) => console.warn(`[media] failed to remove ${k}:`, e?.message));
+  }
+  await prisma.mediaAsset.delete({ where: { url } });
+}
+
+export type MediaMap = Map<string, MediaAsset>;
+
+/** carrega em lote os assets de um conjunto de URLs */
+export async function loadMediaMap(urls: Iterable<string>): Promise<MediaMap> {
+  const unique = [...new Set([...urls].filter(Boolean))];
+  if (!unique.length) return new Map();
+  const rows = await prisma.mediaAsset.findMany({
+    where: { url: { in: unique } },
+  });
+  return new Map(rows.map((r) => [r.url, r]));
+}
+
+/** todas as URLs de imagem de uma lista de produtos (galeria + variantes) */
+export function productImageUrls(list: any[]): string[] {
+  const out: string[] = [];
+  for (const p of list) {
+    for (const im of p?.images ?? []) out.push(im.url);
+    for (const v of p?.variants ?? [])
+      for (const im of v?.images ?? []) out.push(im.url);
+  }
+  return out;
+}
+
+export function imageSet(url: string, asset?: MediaAsset | null): ImageSet {
+  const d = (asset?.derivatives ?? {}) as Derivatives;
+  const sizes = (Object.keys(DERIVATIVE_SIZES) as DerivativeSize[])
+    .map((s) => d[s])
+    .filter((x): x is Derivative => !!x);
+
+  // withoutEnlargement pode gerar larguras repetidas em originais pequenos
+  const byWidth = new Map(sizes.map((x) => [x.width, x]));
+  const entries = [...byWidth.values()];
+
+  return {
+    url,
+    width: asset?.width ?? null,
+    height: asset?.height ?? null,
+    thumb: d.thumb?.url ?? url,
+    medium: d.medium?.url ?? url,
+    large: d.large?.url ?? url,
+    srcset: entries.length
+      ? entries.map((x) => `${x.url} ${x.width}w`).join(", ")
+      : null,
+    webpSrcset: entries.length
+      ? entries.map((x) => `${x.webp} ${x.width}w`).join(", ")
+      : null,
+  };
+}
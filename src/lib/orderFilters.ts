@@ -0,0 +1,62 @@
+// src/lib/orderFilters.ts
+// Status e filtros de pedidos compartilhados entre listagem e exportação.
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+
+export type OrderStatus =
+  | "RECEIVED"
+  | "IN_PROGRESS"
+  | "COMPLETED"
+  | "REFUSED"
+  | "CANCELLED";
+
+export const STATUS_VALUES: OrderStatus[] = [
+  "RECEIVED",
+  "IN_PROGRESS",
+  "COMPLETED",
+  "REFUSED",
+  "CANCELLED",
+];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** ?q, ?status, ?from, ?to (datas ISO; "YYYY-MM-DD" em `to` inclui o dia todo) */
+export const OrderFilterShape = z.object({
+  q: z.string().optional(),
+  status: z.enum(STATUS_VALUES as [OrderStatus, ...OrderStatus[]]).optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+});
+
+export type OrderFilters = z.infer<typeof OrderFilterShape>;
+
+function parseDate(v: string, endOfDay: boolean): Date {
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) throw new Error("invalid_date");
+  if (endOfDay && DATE_ONLY.test(v)) d.setUTCDate(d.getUTCDate() + 1);
+  return d;
+}
+
+/** monta o `where` do Prisma; lança Error("invalid_date") para datas ruins */
+export function buildOrderWhere(
+  f: OrderFilters
+): Prisma.OrderInquiryWhereInput {
+  const where: Prisma.OrderInquiryWhereInput = {};
+  if (f.status) where.status = f.status;
+  if (f.q && f.q.trim()) {
+    const term = f.q.trim();
+    where.OR = [
+      { id: { contains: term, mode: "insensitive" } },
+      { customerName: { contains: term, mode: "insensitive" } },
+      { customerEmail: { contains: term, mode: "insensitive" } },
+      { customerPhone: { contains: term, mode: "insensitive" } },
+    ];
+  }
+  if (f.from || f.to) {
+    where.createdAt = {
+      ...(f.from ? { gte: parseDate(f.from, false) } : {}),
+      ...(f.to ? { lt: parseDate(f.to, true) } : {}),
+    };
+  }
+  return where;
+}
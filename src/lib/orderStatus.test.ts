@@ -0,0 +1,71 @@
+// src/lib/orderStatus.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  STATUS_TRANSITIONS,
+  canTransition,
+  stockDirectionFor,
+} from "./orderStatus";
+import { STATUS_VALUES } from "./orderFilters";
+
+describe("canTransition", () => {
+  it("follows the happy path", () => {
+    assert.ok(canTransition("RECEIVED", "IN_PROGRESS"));
+    assert.ok(canTransition("IN_PROGRESS", "COMPLETED"));
+  });
+
+  it("treats COMPLETED as terminal", () => {
+    for (const to of STATUS_VALUES)
+      assert.equal(canTransition("COMPLETED", to), false);
+  });
+
+  it("only reopens refused/cancelled orders to RECEIVED", () => {
+    for (const from of ["REFUSED", "CANCELLED"] as const) {
+      assert.ok(canTransition(from, "RECEIVED"));
+      assert.equal(canTransition(from, "IN_PROGRESS"), false);
+      assert.equal(canTransition(from, "COMPLETED"), false);
+    }
+  });
+
+  it("never allows skipping IN_PROGRESS or staying put", () => {
+    assert.equal(canTransition("RECEIVED", "COMPLETED"), false);
+    for (const s of STATUS_VALUES) assert.equal(canTransition(s, s), false);
+  });
+
+  it("covers every status", () => {
+    assert.deepEqual(
+      Object.keys(STATUS_TRANSITIONS).sort(),
+      [...STATUS_VALUES].sort()
+    );
+  });
+});
+
+describe("stockDirectionFor", () => {
+  it("reserves stock when work starts", () => {
+    assert.equal(stockDirectionFor("RECEIVED", "IN_PROGRESS"), "dec");
+  });
+
+  it("keeps the reservation through completion", () => {
+    assert.equal(stockDirectionFor("IN_PROGRESS", "COMPLETED"), null);
+  });
+
+  it("returns stock when a held order goes back or is cancelled", () => {
+    assert.equal(stockDirectionFor("IN_PROGRESS", "CANCELLED"), "inc");
+    assert.equal(stockDirectionFor("IN_PROGRESS", "RECEIVED"), "inc");
+  });
+
+  it("ignores moves between non-holding statuses", () => {
+    assert.equal(stockDirectionFor("RECEIVED", "REFUSED"), null);
+    assert.equal(stockDirectionFor("CANCELLED", "RECEIVED"), null);
+  });
+
+  it("is symmetric for every allowed transition", () => {
+    for (const [from, tos] of Object.entries(STATUS_TRANSITIONS))
+      for (const to of tos) {
+        const there = stockDirectionFor(from as any, to);
+        const back = stockDirectionFor(to, from as any);
+        if (there === null) assert.equal(back, null);
+        else assert.equal(back, there === "dec" ? "inc" : "dec");
+      }
+  });
+});
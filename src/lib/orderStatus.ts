@@ -0,0 +1,33 @@
+// src/lib/orderStatus.ts
+// Ciclo de vida do pedido: transições permitidas e efeito no estoque.
+import type { OrderStatus } from "./orderFilters";
+
+/**
+ * Grafo de transições permitidas. COMPLETED é terminal; REFUSED/CANCELLED
+ * só podem ser reabertos (volta para RECEIVED).
+ */
+export const STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  RECEIVED: ["IN_PROGRESS", "REFUSED", "CANCELLED"],
+  IN_PROGRESS: ["COMPLETED", "CANCELLED", "RECEIVED"],
+  COMPLETED: [],
+  REFUSED: ["RECEIVED"],
+  CANCELLED: ["RECEIVED"],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return (STATUS_TRANSITIONS[from] ?? []).includes(to);
+}
+
+/** status em que o pedido "segura" estoque */
+const STOCK_HOLDING_STATUSES: OrderStatus[] = ["IN_PROGRESS", "COMPLETED"];
+
+export function stockDirectionFor(
+  from: OrderStatus,
+  to: OrderStatus
+): "dec" | "inc" | null {
+  const heldBefore = STOCK_HOLDING_STATUSES.includes(from);
+  const heldAfter = STOCK_HOLDING_STATUSES.includes(to);
+  if (!heldBefore && heldAfter) return "dec";
+  if (heldBefore && !heldAfter) return "inc";
+  return null;
+}
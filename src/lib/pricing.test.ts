@@ -0,0 +1,181 @@
+// src/lib/pricing.test.ts
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// FEATURE_PROMOS é lido no import do módulo
+process.env.FEATURE_PROMOTIONS = "1";
+let pricing: typeof import("./pricing");
+before(async () => {
+  pricing = await import("./pricing");
+});
+
+const NOW = new Date("2026-06-15T12:00:00.000Z");
+
+function promo(over: Record<string, unknown> = {}) {
+  return {
+    title: "Promo",
+    active: true,
+    startsAt: new Date("2026-06-01T00:00:00.000Z"),
+    endsAt: new Date("2026-06-30T00:00:00.000Z"),
+    percentOff: null,
+    priceOff: null,
+    ...over,
+  };
+}
+
+describe("computeSale", () => {
+  it("returns null without a running promotion", () => {
+    const { computeSale } = pricing;
+    assert.equal(computeSale({ price: 100, promotions: [] }, NOW), null);
+    assert.equal(
+      computeSale(
+        {
+          price: 100,
+          promotions: [
+            promo({ percentOff: 10, active: false }),
+            promo({ percentOff: 10, endsAt: new Date("2026-06-10") }),
+            promo({ percentOff: 10, startsAt: new Date("2026-06-20") }),
+          ],
+        },
+        NOW
+      ),
+      null
+    );
+  });
+
+  it("applies percent and fixed discounts", () => {
+    const { computeSale } = pricing;
+    const pct = computeSale(
+      { price: 80, promotions: [promo({ percentOff: 25 })] },
+      NOW
+    );
+    assert.equal(pct?.salePrice, 60);
+    assert.equal(pct?.percentOff, 25);
+    const off = computeSale(
+      { price: "19.99", promotions: [promo({ priceOff: "5" })] },
+      NOW
+    );
+    assert.equal(off?.salePrice, 14.99);
+    assert.equal(off?.priceOff, 5);
+  });
+
+  it("picks the promotion with the lowest price", () => {
+    const sale = pricing.computeSale(
+      {
+        price: 100,
+        promotions: [
+          promo({ title: "10%", percentOff: 10 }),
+          promo({ title: "$15", priceOff: 15 }),
+          promo({ title: "5%", percentOff: 5 }),
+        ],
+      },
+      NOW
+    );
+    assert.equal(sale?.title, "$15");
+    assert.equal(sale?.salePrice, 85);
+  });
+
+  it("never goes below zero", () => {
+    const sale = pricing.computeSale(
+      { price: 10, promotions: [promo({ priceOff: 25 })] },
+      NOW
+    );
+    assert.equal(sale?.salePrice, 0);
+  });
+});
+
+describe("priceOrderItems", () => {
+  const products = [
+    { id: "p1", active: true, price: 50, promotions: [] },
+    {
+      id: "p2",
+      active: true,
+      price: 20,
+      promotions: [promo({ percentOff: 50 })],
+    },
+    { id: "off", active: false, price: 10, promotions: [] },
+  ];
+  const variants = [
+    { id: "v1", productId: "p1", name: "Large", price: 70, active: true },
+    { id: "v2", productId: "p2", name: "Small", price: 10, active: true },
+    { id: "v3", productId: "p1", name: "Old", price: 40, active: false },
+  ];
+  const db = {
+    product: {
+      findMany: async ({ where }: any) =>
+        products.filter((p) => where.id.in.includes(p.id)),
+    },
+    productVariant: {
+      findMany: async ({ where }: any) =>
+        variants.filter((v) => where.id.in.includes(v.id)),
+    },
+  } as any;
+
+  it("prices from the catalog and ignores client prices", async () => {
+    const items = await pricing.priceOrderItems(
+      db,
+      [
+        { productId: "p1", quantity: 2, unitPrice: 0.01 } as any,
+        { productId: "p1", variantId: "v1", quantity: 1 },
+      ],
+      NOW
+    );
+    assert.deepEqual(items, [
+      {
+        productId: "p1",
+        variantId: null,
+        variantName: null,
+        quantity: 2,
+        unitPrice: 50,
+      },
+      {
+        productId: "p1",
+        variantId: "v1",
+        variantName: "Large",
+        quantity: 1,
+        unitPrice: 70,
+      },
+    ]);
+  });
+
+  it("applies the product promotion to product and variant prices", async () => {
+    const items = await pricing.priceOrderItems(
+      db,
+      [
+        { productId: "p2", quantity: 1 },
+        { productId: "p2", variantId: "v2", quantity: 3 },
+      ],
+      NOW
+    );
+    assert.deepEqual(
+      items.map((it) => it.unitPrice),
+      [10, 5]
+    );
+    assert.deepEqual(pricing.calcTotals(items), { subtotal: 25, total: 25 });
+  });
+
+  it("rejects unavailable products and variants with the item index", async () => {
+    const cases: Array<[any, string]> = [
+      [{ productId: "nope", quantity: 1 }, "PRODUCT_NOT_FOUND"],
+      [{ productId: "off", quantity: 1 }, "PRODUCT_INACTIVE"],
+      [{ productId: "p1", variantId: "vx", quantity: 1 }, "VARIANT_NOT_FOUND"],
+      [{ productId: "p1", variantId: "v2", quantity: 1 }, "VARIANT_MISMATCH"],
+      [{ productId: "p1", variantId: "v3", quantity: 1 }, "VARIANT_INACTIVE"],
+    ];
+    for (const [item, code] of cases) {
+      await assert.rejects(
+        pricing.priceOrderItems(
+          db,
+          [{ productId: "p1", quantity: 1 }, item],
+          NOW
+        ),
+        (e: any) => {
+          assert.ok(e instanceof pricing.OrderItemError);
+          assert.equal(e.code, code);
+          assert.equal(e.index, 1);
+          return true;
+        }
+      );
+    }
+  });
+});
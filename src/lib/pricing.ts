@@ -0,0 +1,225 @@
+// src/lib/pricing.ts
+// Regras de preço compartilhadas entre catálogo (products) e pedidos (orders).
+import type { Prisma, PrismaClient } from "@prisma/client";
+
+export const FEATURE_PROMOS = process.env.FEATURE_PROMOTIONS === "1"; // default OFF
+
+export type SaleInfo = {
+  title: string;
+  percentOff?: number;
+  priceOff?: number;
+  startsAt: Date;
+  endsAt: Date;
+  salePrice: number;
+};
+
+/** calcula melhor promoção ativa e preço final (usado apenas se FEATURE_PROMOS=1) */
+export function computeSale(p: any, now = new Date()): SaleInfo | null {
+  const actives = (p.promotions || []).filter(
+    (pr: any) =>
+      pr.active &&
+      new Date(pr.startsAt) <= now &&
+      now <= new Date(pr.endsAt) &&
+      (pr.percentOff || pr.priceOff)
+  );
+  if (!actives.length) return null;
+
+  const base = Number(p.price);
+  let best: any = null;
+  let bestPrice = base;
+
+  for (const pr of actives) {
+    let newPrice = base;
+    if (pr.percentOff) newPrice = base * (1 - pr.percentOff / 100);
+    if (pr.priceOff) newPrice = Math.min(newPrice, base - Number(pr.priceOff));
+    if (newPrice < bestPrice) {
+      bestPrice = Math.max(0, Number(newPrice.toFixed(2)));
+      best = pr;
+    }
+  }
+  if (!best || bestPrice >= base) return null;
+
+  return {
+    title: best.title,
+    percentOff: best.percentOff ?? undefined,
+    priceOff: best.priceOff ? Number(best.priceOff) : undefined,
+    startsAt: best.startsAt,
+    endsAt: best.endsAt,
+    salePrice: bestPrice,
+  };
+}
+
+/**
+ * Preço unitário efetivo de um item: preço base (produto ou variante)
+ * com a melhor promoção ativa do produto aplicada.
+ */
+export function effectiveUnitPrice(
+  basePrice: unknown,
+  promotions: any[] | undefined,
+  now = new Date()
+): number {
+  const base = Number(basePrice);
+  const safe = Number.isFinite(base) ? base : 0;
+  if (!FEATURE_PROMOS) return Number(safe.toFixed(2));
+  const sale = computeSale({ price: safe, promotions }, now);
+  return Number((sale ? sale.salePrice : safe).toFixed(2));
+}
+
+function asNum(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function calcTotals(
+  items: Array<{ quantity: number; unitPrice: number }>
+) {
+  const subtotal = items.reduce(
+    (acc, it) => acc + it.quantity * asNum(it.unitPrice),
+    0
+  );
+  return {
+    subtotal: Number(subtotal.toFixed(2)),
+    total: Number(subtotal.toFixed(2)),
+  };
+}
+
+/** Erro de item de pedido (produto inativo, variante inválida etc.) */
+export class OrderItemError extends Error {
+  constructor(
+    public code:
+      | "PRODUCT_NOT_FOUND"
+      | "PRODUCT_INACTIVE"
+      | "VARIANT_NOT_FOUND"
+      | "VARIANT_MISMATCH"
+      | "VARIANT_INACTIVE",
+    public index: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export type PricedOrderItem = {
+  productId: string;
+  variantId: string | null;
+  variantName: string | null;
+  quantity: number;
+  unitPrice: number;
+};
+
+/**
+ * Precifica itens de pedido a partir do catálogo — o servidor é a única
+ * autoridade de preço; qualquer unitPrice enviado pelo cliente é ignorado.
+ */
+export async function priceOrderItems(
+  db: Prisma.TransactionClient | PrismaClient,
+  items: Array<{
+    productId: string;
+    quantity: number;
+    variantId?: string | null;
+  }>,
+  now = new Date()
+): Promise<PricedOrderItem[]> {
+  const productIds = [...new Set(items.map((it) => it.productId))];
+  const variantIds = [
+    ...new Set(items.map((it) => it.variantId).filter(Boolean) as string[]),
+  ];
+
+  const [products, variants] = await Promise.all([
+    db.product.findMany({
+      where: { id: { in: productIds } },
+      select: {
+        id: true,
+        active: true,
+        price: true,
+        promotions: FEATURE_PROMOS
+          ? {
+              where: {
+                active: true,
+                startsAt: { lte: now },
+                endsAt: { gte: now },
+              },
+              select: {
+                title: true,
+                percentOff: true,
+                priceOff: true,
+                startsAt: true,
+                endsAt: true,
+                active: true,
+              },
+            }
+          : false,
+      },
+    }),
+    variantIds.length
+      ? db.productVariant.findMany({
+          where: { id: { in: variantIds } },
+          select: {
+            id: true,
+            productId: true,
+            name: true,
+            price: true,
+            active: true,
+          },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const productById = new Map(products.map((p) => [p.id, p]));
+  const variantById = new Map(variants.map((v) => [v.id, v]));
+
+  return items.map((it, index) => {
+    const product = productById.get(it.productId);
+    if (!product)
+      throw new OrderItemError(
+        "PRODUCT_NOT_FOUND",
+        index,
+        "Product not found."
+      );
+    if (!product.active)
+      throw new OrderItemError(
+        "PRODUCT_INACTIVE",
+        index,
+        "Product is not available."
+      );
+
+    const promos = (product as any).promotions as any[] | undefined;
+
+    if (it.variantId) {
+      const variant = variantById.get(it.variantId);
+      if (!variant)
+        throw new OrderItemError(
+          "VARIANT_NOT_FOUND",
+          index,
+          "Variant not found."
+        );
+      if (variant.productId !== product.id)
+        throw new OrderItemError(
+          "VARIANT_MISMATCH",
+          index,
+          "Variant does not belong to this product."
+        );
+      if (!variant.active)
+        throw new OrderItemError(
+          "VARIANT_INACTIVE",
+          index,
+          "Variant is not available."
+        );
+      return {
+        productId: product.id,
+        variantId: variant.id,
+        variantName: variant.name,
+        quantity: it.quantity,
+        unitPrice: effectiveUnitPrice(variant.price, promos, now),
+      };
+    }
+
+    return {
+      productId: product.id,
+      variantId: null,
+      variantName: null,
+      quantity: it.quantity,
+      unitPrice: effectiveUnitPrice(product.price, promos, now),
+    };
+  });
+}
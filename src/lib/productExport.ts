@@ -0,0 +1,302 @@
+// src/lib/productExport.ts
+// Exportação do catálogo: CSV (uma linha por variante) e JSON no mesmo
+// formato aceito por POST /products/import, mais o feed do Google
+// Merchant (RSS 2.0) com a visão pública do produto.
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { FEATURE_PROMOS, effectiveUnitPrice } from "./pricing";
+import { selectForReturn, serializeProduct } from "./catalog";
+import {
+  ImportProduct,
+  PRODUCT_CSV_HEADERS,
+  joinCsvList,
+} from "./productImport";
+
+/** =========================
+ *  CSV / JSON (formato do import)
+ *  ========================= */
+export const exportSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  description: true,
+  price: true,
+  stock: true,
+  active: true,
+  sortOrder: true,
+  packageSize: true,
+  pdfUrl: true,
+  visiblePrice: true,
+  visiblePackageSize: true,
+  visiblePdf: true,
+  visibleImages: true,
+  visibleDescription: true,
+  images: { select: { url: true }, orderBy: { sortOrder: "asc" } },
+  categories: {
+    select: { categoryId: true, isPrimary: true },
+    orderBy: [{ isPrimary: "desc" }, { category: { name: "asc" } }],
+  },
+  variants: {
+    select: {
+      name: true,
+      sku: true,
+      price: true,
+      stock: true,
+      active: true,
+      sortOrder: true,
+      imageUrl: true,
+      images: { select: { url: true }, orderBy: { sortOrder: "asc" } },
+    },
+    orderBy: { sortOrder: "asc" },
+  },
+} satisfies Prisma.ProductSelect;
+
+export type ExportProduct = Prisma.ProductGetPayload<{
+  select: typeof exportSelect;
+}>;
+
+export type CategoryInfo = { slug: string; path: string };
+
+/** id -> slug + caminho ("Floor Care > Floor Finishes"); a árvore é pequena */
+export async function loadCategoryInfo(): Promise<Map<string, CategoryInfo>> {
+  const all = await prisma.category.findMany({
+    select: { id: true, name: true, slug: true, parentId: true },
+  });
+  const byId = new Map(all.map((c) => [c.id, c]));
+  const out = new Map<string, CategoryInfo>();
+  for (const c of all) {
+    const names: string[] = [];
+    const seen = new Set<string>();
+    for (
+      let cur: typeof c | undefined = c;
+      cur && !seen.has(cur.id);
+      cur = cur.parentId ? byId.get(cur.parentId) : undefined
+    ) {
+      seen.add(cur.id);
+      names.unshift(cur.name);
+    }
+    out.set(c.id, { slug: c.slug, path: names.join(" > ") });
+  }
+  return out;
+}
+
+/** produto -> objeto que o import aceita (e que o seed usa) */
+export function toImportShape(
+  p: ExportProduct,
+  cats: Map<string, CategoryInfo>
+): ImportProduct {
+  const [primary, ...others] = p.categories;
+  return {
+    slug: p.slug,
+    name: p.name,
+    description: p.description,
+    price: Number(p.price),
+    stock: p.stock,
+    active: p.active,
+    sortOrder: p.sortOrder,
+    packageSize: p.packageSize,
+    pdfUrl: p.pdfUrl,
+    images: p.images.map((im) => im.url),
+    visiblePrice: p.visiblePrice,
+    visiblePackageSize: p.visiblePackageSize,
+    visiblePdf: p.visiblePdf,
+    visibleImages: p.visibleImages,
+    visibleDescription: p.visibleDescription,
+    categorySlug: primary ? cats.get(primary.categoryId)?.slug : undefined,
+    categorySlugs: others
+      .map((l) => cats.get(l.categoryId)?.slug)
+      .filter((s): s is string => !!s),
+    variants: p.variants.map((v) => ({
+      name: v.name,
+      sku: v.sku,
+      price: Number(v.price),
+      stock: v.stock,
+      active: v.active,
+      sortOrder: v.sortOrder,
+      imageUrl: v.imageUrl,
+      images: v.images.map((im) => im.url),
+    })),
+  };
+}
+
+/** linhas do CSV (colunas de PRODUCT_CSV_HEADERS); sem variantes = 1 linha */
+export function toCsvRows(
+  p: ExportProduct,
+  cats: Map<string, CategoryInfo>
+): unknown[][] {
+  const d = toImportShape(p, cats);
+  const primary = p.categories[0];
+  const product: Record<string, unknown> = {
+    ...d,
+    images: joinCsvList(d.images ?? []),
+    categoryPath: primary ? cats.get(primary.categoryId)?.path : "",
+    categorySlugs: joinCsvList(d.categorySlugs ?? []),
+  };
+  const variants = d.variants?.length ? d.variants : [null];
+  return variants.map((v) => {
+    const row: Record<string, unknown> = { ...product };
+    if (v)
+      for (const [k, val] of Object.entries(v))
+        row[`variant_${k}`] = Array.isArray(val) ? joinCsvList(val) : val;
+    return PRODUCT_CSV_HEADERS.map((h) => row[h] ?? "");
+  });
+}
+
+/** =========================
+ *  Google Merchant (RSS 2.0 + namespace g:)
+ *  ========================= */
+export const FEED_CURRENCY = process.env.FEED_CURRENCY || "USD";
+export const FEED_BRAND = process.env.COMPANY_NAME || "Listo365";
+// mesma leitura do STOCK_POLICY de routes/orders: "off" = só cotação
+const TRACKS_STOCK = ["track", "strict"].includes(
+  String(process.env.STOCK_POLICY || "off")
+    .trim()
+    .toLowerCase()
+);
+const MAX_ADDITIONAL_IMAGES = 10;
+
+export function xmlEscape(v: unknown) {
+  return String(v ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+export type FeedContext = {
+  /** página do produto na loja */
+  productUrl: (slug: string) => string;
+  /** URL absoluta (imagens relativas do storage local) */
+  absolute: (url: string) => string;
+  categories: Map<string, CategoryInfo>;
+};
+
+/** o feed usa a mesma seleção do retorno público */
+export const feedSelect = selectForReturn;
+
+export function feedHeader(title: string, link: string) {
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">\n` +
+    `<channel>\n` +
+    `<title>${xmlEscape(title)}</title>\n` +
+    `<link>${xmlEscape(link)}</link>\n` +
+    `<description>${xmlEscape(`${FEED_BRAND} product feed`)}</description>\n`
+  );
+}
+
+export const FEED_FOOTER = `</channel>\n</rss>\n`;
+
+const money = (n: number) => `${n.toFixed(2)} ${FEED_CURRENCY}`;
+
+function tag(name: string, value: unknown) {
+  return value === undefined || value === null || value === ""
+    ? ""
+    : `<g:${name}>${xmlEscape(value)}</g:${name}>\n`;
+}
+
+/**
+ * Itens do feed para um produto ativo, a partir da visão pública do
+ * serializeProduct: preço só com visiblePrice, imagens só com
+ * visibleImages. Variantes ativas viram itens do mesmo item_group_id.
+ */
+export function feedItems(p: any, ctx: FeedContext): string {
+  const pub = serializeProduct(p, false);
+  const productType = pub.category
+    ? ctx.categories.get(pub.category.id)?.path
+    : undefined;
+  const showImages = p.visibleImages ?? true;
+  const description = pub.description || pub.name;
+  const images = pub.images.map((im) => ctx.absolute(im.url));
+  const activeVariants = (pub.variants ?? []).filter((v) => v.active);
+
+  const item = (o: {
+    id: string;
+    title: string;
+    price?: number;
+    salePrice?: number;
+    images: string[];
+    stock: number;
+    groupId?: string;
+    mpn?: string;
+  }) => {
+    const [image, ...more] = o.images;
+    const onSale =
+      o.price !== undefined &&
+      o.salePrice !== undefined &&
+      o.salePrice < o.price &&
+      pub.sale;
+    return (
+      `<item>\n` +
+      tag("id", o.id) +
+      tag("title", o.title) +
+      tag("description", description) +
+      tag("link", ctx.productUrl(pub.slug)) +
+      tag("image_link", image) +
+      more
+        .slice(0, MAX_ADDITIONAL_IMAGES)
+        .map((u) => tag("additional_image_link", u))
+        .join("") +
+      tag(
+        "availability",
+        !TRACKS_STOCK || o.stock > 0 ? "in_stock" : "out_of_stock"
+      ) +
+      tag("price", o.price !== undefined ? money(o.price) : undefined) +
+      (onSale
+        ? tag("sale_price", money(o.salePrice!)) +
+          tag(
+            "sale_price_effective_date",
+            `${new Date(pub.sale!.startsAt).toISOString()}/${new Date(
+              pub.sale!.endsAt
+            ).toISOString()}`
+          )
+        : "") +
+      tag("condition", "new") +
+      tag("brand", FEED_BRAND) +
+      tag("mpn", o.mpn) +
+      tag("identifier_exists", o.mpn ? undefined : "no") +
+      tag("item_group_id", o.groupId) +
+      tag("product_type", productType) +
+      `</item>\n`
+    );
+  };
+
+  if (!activeVariants.length)
+    return item({
+      id: pub.id,
+      title: pub.name,
+      price: pub.price,
+      salePrice: pub.sale?.salePrice,
+      images,
+      stock: pub.stock,
+    });
+
+  // SKU repetido entre variantes não serve de g:id (tem que ser único)
+  const skuCount = new Map<string, number>();
+  for (const v of activeVariants)
+    if (v.sku) skuCount.set(v.sku, (skuCount.get(v.sku) ?? 0) + 1);
+
+  return activeVariants
+    .map((v) => {
+      const own = [
+        ...(v.imageUrl && showImages ? [v.imageUrl] : []),
+        ...v.images.map((im: { url: string }) => im.url),
+      ].map(ctx.absolute);
+      return item({
+        id: v.sku && skuCount.get(v.sku) === 1 ? v.sku : v.id,
+        title: `${pub.name} - ${v.name}`,
+        price: v.price,
+        salePrice:
+          FEATURE_PROMOS && v.price !== undefined
+            ? effectiveUnitPrice(v.price, p.promotions)
+            : undefined,
+        images: [...new Set([...own, ...images])],
+        stock: v.stock,
+        groupId: pub.id,
+        mpn: v.sku,
+      });
+    })
+    .join("");
+}
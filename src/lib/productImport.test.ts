@@ -0,0 +1,149 @@
+// src/lib/productImport.test.ts
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { prisma } from "./prisma";
+
+// flags lidas no import de lib/catalog
+process.env.FEATURE_VARIANTS = "1";
+process.env.FEATURE_VISIBILITY_FLAGS = "1";
+let lib: typeof import("./productImport");
+
+const existing = [
+  {
+    id: "p1",
+    name: "Floor Finish",
+    slug: "floor-finish",
+    description: "High gloss finish",
+    price: 10,
+    stock: 5,
+    active: true,
+    sortOrder: 0,
+    packageSize: null,
+    pdfUrl: null,
+    imageUrl: null,
+    visiblePrice: true,
+    visiblePackageSize: true,
+    visiblePdf: true,
+    visibleImages: true,
+    visibleDescription: true,
+    images: [],
+    categories: [{ categoryId: "c1", isPrimary: true }],
+    variants: [
+      {
+        name: "1 gal",
+        sku: "FF-1",
+        price: 10,
+        stock: 5,
+        active: true,
+        sortOrder: 10,
+        imageUrl: null,
+        images: [],
+      },
+    ],
+  },
+];
+
+const categories = [
+  { id: "c1", name: "Floor Care", slug: "floor-care", parentId: null },
+  { id: "c2", name: "Finishes", slug: "finishes", parentId: "c1" },
+];
+
+before(async () => {
+  // planImport só lê: produtos por slug/SKU e a árvore de categorias
+  (prisma as any).product = {
+    findMany: async ({ where }: any) => {
+      const slugs: string[] = where.OR[0].slug.in;
+      const skus: string[] = where.OR[1]?.variants.some.sku.in ?? [];
+      return existing.filter(
+        (p) =>
+          slugs.includes(p.slug) || p.variants.some((v) => skus.includes(v.sku))
+      );
+    },
+  };
+  (prisma as any).category = { findMany: async () => categories };
+  lib = await import("./productImport");
+});
+
+const plan = (products: unknown[]) =>
+  lib.planImport(lib.itemsFromJson(products));
+
+describe("planImport", () => {
+  it("reports an identical product as unchanged", async () => {
+    const { rows, ops } = await plan([{ name: "Floor Finish", price: 10 }]);
+    assert.equal(rows[0].action, "unchanged");
+    assert.equal(rows[0].productId, "p1");
+    assert.equal(ops.length, 0);
+  });
+
+  it("diffs only the fields that change", async () => {
+    const { rows, ops } = await plan([{ name: "Floor Finish", price: "12" }]);
+    assert.equal(rows[0].action, "update");
+    assert.equal(rows[0].matchedBy, "slug");
+    assert.deepEqual(rows[0].changes, { price: { from: 10, to: 12 } });
+    assert.equal(ops[0].productId, "p1");
+  });
+
+  it("matches by variant SKU when the name changed", async () => {
+    const { rows } = await plan([
+      { name: "Floor Finish Pro", variants: [{ name: "1 gal", sku: "FF-1" }] },
+    ]);
+    assert.equal(rows[0].action, "update");
+    assert.equal(rows[0].matchedBy, "sku");
+    assert.deepEqual(rows[0].changes?.slug, {
+      from: "floor-finish",
+      to: "floor-finish-pro",
+    });
+  });
+
+  it("creates new products and resolves category paths", async () => {
+    const { rows, ops } = await plan([
+      {
+        name: "Stripper",
+        description: "Removes finish",
+        categoryPath: "Floor Care > Finishes",
+      },
+    ]);
+    assert.equal(rows[0].action, "create");
+    assert.equal(ops[0].productId, null);
+    assert.deepEqual(ops[0].target.categories, [
+      { categoryId: "c2", isPrimary: true },
+    ]);
+  });
+
+  it("flags rows that cannot be applied", async () => {
+    const { rows, ops } = await plan([
+      { name: "No Description" },
+      { name: "Mop", description: "Cotton", categoryPath: "Nope" },
+      { name: "Bucket", description: "Steel" },
+      { name: "bucket", description: "Plastic" },
+    ]);
+    assert.deepEqual(
+      rows.map((r) => r.action),
+      ["error", "error", "create", "error"]
+    );
+    assert.match(rows[0].errors![0], /description: required/);
+    assert.match(rows[1].errors![0], /category not found: Nope/);
+    assert.match(rows[3].errors![0], /already used by row 3/);
+    assert.equal(ops.length, 1);
+  });
+
+  it("groups CSV lines into one product with variants", async () => {
+    const items = lib.itemsFromCsv(
+      [
+        "name,description,variant_name,variant_sku,variant_price",
+        "Wax,Paste wax,Small,WX-S,5",
+        "Wax,,Large,WX-L,9.5",
+      ].join("\n")
+    );
+    const { rows, ops } = await lib.planImport(items);
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0].action, "create");
+    assert.deepEqual(
+      ops[0].target.variants?.map((v) => [v.name, v.sku, v.price]),
+      [
+        ["Small", "WX-S", 5],
+        ["Large", "WX-L", 9.5],
+      ]
+    );
+  });
+});
@@ -0,0 +1,792 @@
+// src/lib/productImport.ts
+// Importação em massa de produtos: CSV (uma linha por variante) ou JSON no
+// formato do prisma/products.seed.json. Tudo é planejado antes (diff por
+// linha, sem escrever nada) e só então aplicado numa transação única.
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { FEATURE_VAR, FEATURE_VIS, urlish } from "./catalog";
+import { CsvParseError, parseCsv } from "./csv";
+import {
+  RevisionActor,
+  ensureBaseline,
+  pruneRevisions,
+  recordRevision,
+} from "./productRevisions";
+
+export const IMPORT_MAX_ROWS = Number(process.env.IMPORT_MAX_ROWS || 1000);
+const TX_TIMEOUT_MS = Number(process.env.IMPORT_TX_TIMEOUT_MS || 120_000);
+
+function slugify(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+}
+
+/** =========================
+ *  Formato de entrada
+ *  ========================= */
+const ImportVariant = z.object({
+  name: z.string().trim().min(1),
+  sku: z.string().trim().min(1).nullable().optional(),
+  price: z.coerce.number().nonnegative().optional(),
+  stock: z.coerce.number().int().min(0).optional(),
+  sortOrder: z.coerce.number().int().optional(),
+  active: z.boolean().optional(),
+  imageUrl: urlish.nullable().optional(),
+  images: z.array(urlish).max(10).optional(),
+});
+
+export const ImportProduct = z.object({
+  /** só chave de busca; o slug gravado sempre sai do nome */
+  slug: z.string().trim().min(1).optional(),
+  name: z.string().trim().min(2),
+  description: z.string().min(2).optional(), // obrigatório ao criar
+  price: z.coerce.number().nonnegative().optional(),
+  stock: z.coerce.number().int().min(0).optional(),
+  active: z.boolean().optional(),
+  sortOrder: z.coerce.number().int().optional(),
+  packageSize: z.string().min(1).max(100).nullable().optional(),
+  pdfUrl: urlish.nullable().optional(),
+  images: z.array(urlish).max(10).optional(), // capa + demais
+  visiblePrice: z.boolean().optional(),
+  visiblePackageSize: z.boolean().optional(),
+  visiblePdf: z.boolean().optional(),
+  visibleImages: z.boolean().optional(),
+  visibleDescription: z.boolean().optional(),
+  /** principal por caminho: "Floor Care > Floor Finishes" */
+  categoryPath: z.string().trim().min(1).optional(),
+  /** principal por slug (ou id), como no seed */
+  categorySlug: z.string().trim().min(1).optional(),
+  categorySlugs: z.array(z.string().trim().min(1)).max(20).optional(),
+  variants: z.array(ImportVariant).max(50).optional(),
+});
+export type ImportProduct = z.infer<typeof ImportProduct>;
+
+/** item já lido da entrada: row = posição (1…), line = linha do CSV */
+export type ImportItem = {
+  row: number;
+  line?: number;
+  key: string;
+  data?: ImportProduct;
+  errors: string[];
+};
+
+/** entrada ilegível como um todo (400) */
+export class ImportFormatError extends Error {
+  constructor(
+    public code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function issuesToErrors(issues: z.ZodIssue[]) {
+  return issues.map((i) =>
+    i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message
+  );
+}
+
+function checkSize(n: number) {
+  if (!n) throw new ImportFormatError("empty_import", "No products to import.");
+  if (n > IMPORT_MAX_ROWS)
+    throw new ImportFormatError(
+      "too_many_rows",
+      `At most ${IMPORT_MAX_ROWS} products per import (got ${n}).`
+    );
+}
+
+/** JSON: array (como products.seed.json) ou { products: [...] } */
+export function itemsFromJson(body: unknown): ImportItem[] {
+  const list = Array.isArray(body)
+    ? body
+    : Array.isArray((body as any)?.products)
+      ? (body as any).products
+      : null;
+  if (!list)
+    throw new ImportFormatError(
+      "invalid_import",
+      "Expected an array of products or { products: [...] }."
+    );
+  checkSize(list.length);
+
+  return list.map((raw: any, i: number) => {
+    const parsed = ImportProduct.safeParse(raw);
+    const key = String(raw?.slug || raw?.name || `#${i + 1}`);
+    return parsed.success
+      ? { row: i + 1, key, data: parsed.data, errors: [] }
+      : { row: i + 1, key, errors: issuesToErrors(parsed.error.issues) };
+  });
+}
+
+/** =========================
+ *  CSV (uma linha por variante)
+ *  ========================= */
+const LIST_SEPARATOR = "|";
+
+/** colunas do produto, repetidas em todas as linhas das variantes */
+export const PRODUCT_CSV_COLUMNS = [
+  "slug",
+  "name",
+  "description",
+  "price",
+  "stock",
+  "active",
+  "sortOrder",
+  "packageSize",
+  "pdfUrl",
+  "images",
+  "visiblePrice",
+  "visiblePackageSize",
+  "visiblePdf",
+  "visibleImages",
+  "visibleDescription",
+  "categoryPath",
+  "categorySlugs",
+] as const;
+
+export const VARIANT_CSV_COLUMNS = [
+  "variant_name",
+  "variant_sku",
+  "variant_price",
+  "variant_stock",
+  "variant_active",
+  "variant_sortOrder",
+  "variant_imageUrl",
+  "variant_images",
+] as const;
+
+export const PRODUCT_CSV_HEADERS = [
+  ...PRODUCT_CSV_COLUMNS,
+  ...VARIANT_CSV_COLUMNS,
+];
+
+/** listas (imagens, categorias) vão numa célula só, separadas por "|" */
+export function joinCsvList(values: string[]) {
+  return values.join(LIST_SEPARATOR);
+}
+
+function splitList(v: string) {
+  return v
+    .split(LIST_SEPARATOR)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+const BOOL_CELLS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  "1": true,
+  "0": false,
+  yes: true,
+  no: false,
+};
+
+const BOOL_COLUMNS = new Set([
+  "active",
+  "visiblePrice",
+  "visiblePackageSize",
+  "visiblePdf",
+  "visibleImages",
+  "visibleDescription",
+  "variant_active",
+]);
+const LIST_COLUMNS = new Set(["images", "categorySlugs", "variant_images"]);
+
+/** célula -> valor; vazio = coluna não informada */
+function cellValue(col: string, raw: string, errors: string[]) {
+  const v = raw.trim();
+  if (!v) return undefined;
+  if (BOOL_COLUMNS.has(col)) {
+    const b = BOOL_CELLS[v.toLowerCase()];
+    if (b === undefined) errors.push(`${col}: expected true/false, got "${v}"`);
+    return b;
+  }
+  if (LIST_COLUMNS.has(col)) return splitList(v);
+  return v;
+}
+
+/**
+ * Linhas com o mesmo slug (ou nome) formam um produto; as colunas
+ * variant_* de cada linha viram uma variante. Células vazias não mexem no
+ * campo — para limpar algo, use o JSON.
+ */
+export function itemsFromCsv(text: string): ImportItem[] {
+  let records;
+  try {
+    records = parseCsv(text);
+  } catch (e) {
+    if (e instanceof CsvParseError)
+      throw new ImportFormatError("invalid_csv", e.message);
+    throw e;
+  }
+  const [header, ...body] = records;
+  if (!header) throw new ImportFormatError("empty_import", "Empty CSV.");
+
+  const known = new Map<string, string>(
+    PRODUCT_CSV_HEADERS.map((c) => [c.toLowerCase(), c])
+  );
+  const columns = header.values.map((h) => known.get(h.trim().toLowerCase()));
+  const unknown = header.values.filter((_, i) => !columns[i]);
+  if (unknown.length)
+    throw new ImportFormatError(
+      "unknown_columns",
+      `Unknown column(s): ${unknown.join(", ")}. Expected: ${PRODUCT_CSV_HEADERS.join(", ")}.`
+    );
+  if (!columns.includes("name"))
+    throw new ImportFormatError("invalid_csv", 'Missing "name" column.');
+
+  type Group = {
+    line: number;
+    key: string;
+    product: Record<string, unknown>;
+    firstLine: Record<string, number>;
+    variants: Record<string, unknown>[];
+    errors: string[];
+  };
+  const groups = new Map<string, Group>();
+
+  for (const rec of body) {
+    const cells: Record<string, string> = {};
+    columns.forEach((c, i) => (cells[c!] = rec.values[i] ?? ""));
+    const key =
+      cells.slug?.trim() || slugify(cells.name ?? "") || `line-${rec.line}`;
+
+    let g = groups.get(key);
+    if (!g) {
+      g = {
+        line: rec.line,
+        key: cells.slug?.trim() || cells.name?.trim() || key,
+        product: {},
+        firstLine: {},
+        variants: [],
+        errors: [],
+      };
+      groups.set(key, g);
+    }
+
+    for (const col of PRODUCT_CSV_COLUMNS) {
+      const v = cellValue(col, cells[col] ?? "", g.errors);
+      if (v === undefined) continue;
+      if (!(col in g.product)) {
+        g.product[col] = v;
+        g.firstLine[col] = rec.line;
+      } else if (JSON.stringify(g.product[col]) !== JSON.stringify(v)) {
+        g.errors.push(
+          `${col}: differs between lines ${g.firstLine[col]} and ${rec.line}`
+        );
+      }
+    }
+
+    const variant: Record<string, unknown> = {};
+    for (const col of VARIANT_CSV_COLUMNS) {
+      const v = cellValue(col, cells[col] ?? "", g.errors);
+      if (v !== undefined) variant[col.slice("variant_".length)] = v;
+    }
+    if (Object.keys(variant).length) {
+      if (!variant.name)
+        g.errors.push(`line ${rec.line}: variant columns without variant_name`);
+      else g.variants.push(variant);
+    }
+  }
+
+  checkSize(groups.size);
+
+  return [...groups.values()].map((g, i) => {
+    const raw: Record<string, unknown> = { ...g.product };
+    if (g.variants.length) raw.variants = g.variants;
+    const parsed = ImportProduct.safeParse(raw);
+    const errors = [
+      ...g.errors,
+      ...(parsed.success ? [] : issuesToErrors(parsed.error.issues)),
+    ];
+    return {
+      row: i + 1,
+      line: g.line,
+      key: g.key,
+      data: parsed.success && !errors.length ? parsed.data : undefined,
+      errors,
+    };
+  });
+}
+
+/** =========================
+ *  Plano (diff por linha)
+ *  ========================= */
+export type RowAction = "create" | "update" | "unchanged" | "error";
+
+export type RowDiff = {
+  row: number;
+  line?: number;
+  key: string;
+  action: RowAction;
+  productId?: string;
+  matchedBy?: "slug" | "sku";
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  errors?: string[];
+};
+
+type CategoryLink = { categoryId: string; isPrimary: boolean };
+
+type NormVariant = {
+  name: string;
+  sku: string | null;
+  price: number;
+  stock: number;
+  active: boolean;
+  sortOrder: number;
+  imageUrl: string | null;
+  images: string[];
+};
+
+/** o que gravar; campos ausentes ficam como estão */
+type Target = {
+  fields: Record<string, unknown>;
+  images?: string[];
+  categories?: CategoryLink[];
+  variants?: NormVariant[];
+};
+
+export type ImportOp = {
+  row: number;
+  productId: string | null; // null = criar
+  target: Target;
+};
+
+export type ImportPlan = { rows: RowDiff[]; ops: ImportOp[] };
+
+const existingSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  description: true,
+  price: true,
+  stock: true,
+  active: true,
+  sortOrder: true,
+  packageSize: true,
+  pdfUrl: true,
+  imageUrl: true,
+  visiblePrice: true,
+  visiblePackageSize: true,
+  visiblePdf: true,
+  visibleImages: true,
+  visibleDescription: true,
+  images: { select: { url: true }, orderBy: { sortOrder: "asc" } },
+  categories: { select: { categoryId: true, isPrimary: true } },
+  variants: {
+    select: {
+      name: true,
+      sku: true,
+      price: true,
+      stock: true,
+      active: true,
+      sortOrder: true,
+      imageUrl: true,
+      images: { select: { url: true }, orderBy: { sortOrder: "asc" } },
+    },
+    orderBy: { sortOrder: "asc" },
+  },
+} satisfies Prisma.ProductSelect;
+
+type Existing = Prisma.ProductGetPayload<{ select: typeof existingSelect }>;
+
+const VISIBILITY_FIELDS = [
+  "visiblePrice",
+  "visiblePackageSize",
+  "visiblePdf",
+  "visibleImages",
+  "visibleDescription",
+] as const;
+
+type CategoryRow = {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+};
+
+/** resolve categorias por caminho de nomes/slugs, slug ou id */
+function categoryResolver(all: CategoryRow[]) {
+  const byId = new Map(all.map((c) => [c.id, c]));
+  const bySlug = new Map(all.map((c) => [c.slug, c]));
+  const matches = (c: CategoryRow, seg: string) =>
+    c.slug === seg.toLowerCase() ||
+    c.slug === slugify(seg) ||
+    c.name.toLowerCase() === seg.toLowerCase();
+
+  return {
+    bySlugOrId: (v: string) => bySlug.get(v) ?? byId.get(v) ?? null,
+    byPath(path: string): CategoryRow | null {
+      const segs = path
+        .split(">")
+        .map((s) => s.trim())
+        .filter(Boolean);
+      if (!segs.length) return null;
+      // um segmento só: aceita qualquer nível, se não for ambíguo
+      if (segs.length === 1) {
+        const hits = all.filter((c) => matches(c, segs[0]));
+        return hits.length === 1 ? hits[0] : null;
+      }
+      let parentId: string | null = null;
+      let cur: CategoryRow | null = null;
+      for (const seg of segs) {
+        cur =
+          all.find((c) => c.parentId === parentId && matches(c, seg)) ?? null;
+        if (!cur) return null;
+        parentId = cur.id;
+      }
+      return cur;
+    },
+    slugOf: (id: string) => byId.get(id)?.slug ?? id,
+  };
+}
+
+function normVariantsFromInput(list: NonNullable<ImportProduct["variants"]>) {
+  return list.map((v, i): NormVariant => ({
+    name: v.name,
+    sku: v.sku ?? null,
+    price: v.price ?? 0,
+    stock: v.stock ?? 0,
+    active: v.active ?? true,
+    sortOrder: v.sortOrder ?? (i + 1) * 10,
+    imageUrl: v.imageUrl ?? null,
+    images: v.images ?? [],
+  }));
+}
+
+function normVariantsFromDb(p: Existing) {
+  return p.variants.map((v): NormVariant => ({
+    name: v.name,
+    sku: v.sku ?? null,
+    price: Number(v.price),
+    stock: v.stock,
+    active: v.active,
+    sortOrder: v.sortOrder,
+    imageUrl: v.imageUrl ?? null,
+    images: v.images.map((im) => im.url),
+  }));
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Casa cada item com um produto existente (slug informado, slug do nome
+ * ou SKU de variante) e calcula o diff. Não escreve nada.
+ */
+export async function planImport(items: ImportItem[]): Promise<ImportPlan> {
+  const valid = items.filter((it) => it.data);
+  const slugs = new Set<string>();
+  const skus = new Set<string>();
+  for (const it of valid) {
+    const d = it.data!;
+    if (d.slug) slugs.add(d.slug);
+    slugs.add(slugify(d.name));
+    for (const v of d.variants ?? []) if (v.sku) skus.add(v.sku);
+  }
+
+  const [existing, categoryRows] = await Promise.all([
+    prisma.product.findMany({
+      where: {
+        OR: [
+          { slug: { in: [...slugs] } },
+          ...(skus.size
+            ? [{ variants: { some: { sku: { in: [...skus] } } } }]
+            : []),
+        ],
+      },
+      select: existingSelect,
+    }),
+    prisma.category.findMany({
+      select: { id: true, name: true, slug: true, parentId: true },
+    }),
+  ]);
+
+  const bySlug = new Map(existing.map((p) => [p.slug, p]));
+  const productsBySku = new Map<string, Set<string>>();
+  for (const p of existing)
+    for (const v of p.variants)
+      if (v.sku) {
+        const set = productsBySku.get(v.sku) ?? new Set();
+        set.add(p.id);
+        productsBySku.set(v.sku, set);
+      }
+  const byId = new Map(existing.map((p) => [p.id, p]));
+  const cats = categoryResolver(categoryRows);
+
+  // quem já foi usado neste lote (produto e slug final)
+  const claimedProducts = new Map<string, number>();
+  const claimedSlugs = new Map<string, number>();
+
+  const rows: RowDiff[] = [];
+  const ops: ImportOp[] = [];
+
+  for (const it of items) {
+    const base = {
+      row: it.row,
+      ...(it.line ? { line: it.line } : {}),
+      key: it.key,
+    };
+    if (!it.data) {
+      rows.push({ ...base, action: "error", errors: it.errors });
+      continue;
+    }
+    const d = it.data;
+    const errors: string[] = [];
+
+    // 1) casamento
+    let match: Existing | undefined;
+    let matchedBy: "slug" | "sku" | undefined;
+    const slugMatch =
+      (d.slug && bySlug.get(d.slug)) || bySlug.get(slugify(d.name));
+    if (slugMatch) {
+      match = slugMatch;
+      matchedBy = "slug";
+    } else {
+      const ids = new Set<string>();
+      for (const v of d.variants ?? [])
+        for (const id of (v.sku && productsBySku.get(v.sku)) || []) ids.add(id);
+      if (ids.size > 1)
+        errors.push(
+          `SKUs match ${ids.size} different products; add "slug" to pick one`
+        );
+      else if (ids.size === 1) {
+        match = byId.get([...ids][0]);
+        matchedBy = "sku";
+      }
+    }
+
+    // 2) destino
+    const newSlug = slugify(d.name);
+    if (!newSlug) errors.push("name: must contain letters or digits");
+
+    const fields: Record<string, unknown> = {
+      name: d.name,
+      slug: newSlug,
+    };
+    for (const k of [
+      "description",
+      "price",
+      "stock",
+      "active",
+      "sortOrder",
+      "packageSize",
+      "pdfUrl",
+    ] as const)
+      if (d[k] !== undefined) fields[k] = d[k];
+    if (FEATURE_VIS)
+      for (const k of VISIBILITY_FIELDS)
+        if (d[k] !== undefined) fields[k] = d[k];
+    if (d.images) fields.imageUrl = d.images[0] ?? "";
+
+    const target: Target = { fields };
+    if (d.images) target.images = d.images;
+    if (FEATURE_VAR && d.variants)
+      target.variants = normVariantsFromInput(d.variants);
+
+    // categorias: principal (caminho ou slug) + adicionais
+    const primaryRef = d.categoryPath ?? d.categorySlug;
+    if (primaryRef !== undefined || d.categorySlugs) {
+      const ids: string[] = [];
+      if (primaryRef !== undefined) {
+        const c = d.categoryPath
+          ? cats.byPath(d.categoryPath)
+          : cats.bySlugOrId(primaryRef);
+        if (c) ids.push(c.id);
+        else errors.push(`category not found: ${primaryRef}`);
+      }
+      for (const ref of d.categorySlugs ?? []) {
+        const c = cats.bySlugOrId(ref);
+        if (!c) errors.push(`category not found: ${ref}`);
+        else if (!ids.includes(c.id)) ids.push(c.id);
+      }
+      // sem principal explícita, mantém a atual se ela continuar na lista
+      const currentPrimary = match?.categories.find(
+        (l) => l.isPrimary
+      )?.categoryId;
+      const primary =
+        primaryRef !== undefined
+          ? ids[0]
+          : currentPrimary && ids.includes(currentPrimary)
+            ? currentPrimary
+            : ids[0];
+      target.categories = ids.map((id) => ({
+        categoryId: id,
+        isPrimary: id === primary,
+      }));
+    }
+
+    if (!match && d.description === undefined)
+      errors.push("description: required for new products");
+
+    // 3) conflitos dentro do lote e com outros produtos
+    const prevProduct = match && claimedProducts.get(match.id);
+    const prevSlug = claimedSlugs.get(newSlug);
+    const slugOwner = bySlug.get(newSlug);
+    if (prevProduct) errors.push(`same product as row ${prevProduct}`);
+    else if (prevSlug)
+      errors.push(`slug "${newSlug}" already used by row ${prevSlug}`);
+    if (slugOwner && slugOwner.id !== match?.id)
+      errors.push(`slug "${newSlug}" already belongs to another product`);
+
+    if (errors.length) {
+      rows.push({ ...base, action: "error", errors });
+      continue;
+    }
+    if (match) claimedProducts.set(match.id, it.row);
+    claimedSlugs.set(newSlug, it.row);
+
+    // 4) diff
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    const before: Record<string, unknown> = match
+      ? {
+          ...match,
+          price: Number(match.price),
+          images: match.images.map((im) => im.url),
+          variants: normVariantsFromDb(match),
+        }
+      : {};
+    for (const [k, to] of Object.entries(fields)) {
+      const from = before[k] ?? null;
+      if (!same(from, to)) changes[k] = { from, to };
+    }
+    if (target.images && !same(before.images ?? [], target.images))
+      changes.images = { from: before.images ?? [], to: target.images };
+    if (target.variants && !same(before.variants ?? [], target.variants))
+      changes.variants = { from: before.variants ?? [], to: target.variants };
+    if (target.categories) {
+      const show = (links: CategoryLink[]) =>
+        [...links]
+          .sort(
+            (a, b) =>
+              Number(b.isPrimary) - Number(a.isPrimary) ||
+              cats.slugOf(a.categoryId).localeCompare(cats.slugOf(b.categoryId))
+          )
+          .map((l) => cats.slugOf(l.categoryId));
+      const from = show(match?.categories ?? []);
+      const to = show(target.categories);
+      if (!same(from, to)) changes.categories = { from, to };
+    }
+
+    if (!match) {
+      rows.push({ ...base, action: "create", changes });
+      ops.push({ row: it.row, productId: null, target });
+    } else if (Object.keys(changes).length) {
+      rows.push({
+        ...base,
+        action: "update",
+        productId: match.id,
+        matchedBy,
+        changes,
+      });
+      ops.push({ row: it.row, productId: match.id, target });
+    } else {
+      rows.push({
+        ...base,
+        action: "unchanged",
+        productId: match.id,
+        matchedBy,
+      });
+    }
+  }
+
+  return { rows, ops };
+}
+
+export function summarize(rows: RowDiff[]) {
+  const out = {
+    total: rows.length,
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    error: 0,
+  };
+  for (const r of rows) out[r.action]++;
+  return out;
+}
+
+/** =========================
+ *  Aplicação (tudo ou nada)
+ *  ========================= */
+async function writeProduct(tx: Prisma.TransactionClient, op: ImportOp) {
+  const { fields, images, categories, variants } = op.target;
+  let productId = op.productId;
+
+  if (productId) {
+    await ensureBaseline(productId, tx);
+    await tx.product.update({
+      where: { id: productId },
+      data: fields as Prisma.ProductUpdateInput,
+    });
+  } else {
+    const created = await tx.product.create({
+      data: {
+        price: 0,
+        stock: 0,
+        imageUrl: "",
+        ...(fields as Omit<Prisma.ProductCreateInput, "price" | "imageUrl">),
+      },
+      select: { id: true },
+    });
+    productId = created.id;
+  }
+
+  if (images) {
+    await tx.productImage.deleteMany({ where: { productId } });
+    if (images.length)
+      await tx.productImage.createMany({
+        data: images.map((url, i) => ({
+          productId: productId!,
+          url,
+          sortOrder: (i + 1) * 10,
+        })),
+      });
+  }
+
+  if (categories) {
+    await tx.productCategory.deleteMany({ where: { productId } });
+    if (categories.length)
+      await tx.productCategory.createMany({
+        data: categories.map((l) => ({ productId: productId!, ...l })),
+      });
+  }
+
+  // variantes: regravação completa, como no PUT /products/:id
+  if (variants) {
+    await tx.productVariant.deleteMany({ where: { productId } });
+    for (const { images: urls, ...v } of variants) {
+      await tx.productVariant.create({
+        data: {
+          ...v,
+          productId,
+          images: {
+            create: urls.map((url, i) => ({ url, sortOrder: (i + 1) * 10 })),
+          },
+        },
+      });
+    }
+  }
+
+  return productId;
+}
+
+/** grava o plano numa transação; devolve row -> id do produto */
+export async function applyImport(ops: ImportOp[], actor: RevisionActor) {
+  const ids = await prisma.$transaction(
+    async (tx) => {
+      const ids = new Map<number, string>();
+      for (const op of ops) {
+        const id = await writeProduct(tx, op);
+        await recordRevision(id, op.productId ? "import" : "create", actor, tx);
+        ids.set(op.row, id);
+      }
+      return ids;
+    },
+    { maxWait: 10_000, timeout: TX_TIMEOUT_MS }
+  );
+  for (const id of new Set(ids.values())) await pruneRevisions(id);
+  return ids;
+}
@@ -0,0 +1,142 @@
+// src/lib/productRevisions.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ProductSnapshot, diffSnapshots } from "./productRevisions";
+
+function snapshot(): ProductSnapshot {
+  return {
+    version: 1,
+    product: {
+      name: "Floor Finish",
+      slug: "floor-finish",
+      description: "High gloss finish",
+      price: "10.00",
+      imageUrl: "/uploads/a.jpg",
+      active: true,
+      stock: 5,
+      sortOrder: 0,
+      packageSize: null,
+      pdfUrl: null,
+      visibleDescription: true,
+      visibleImages: true,
+      visiblePackageSize: true,
+      visiblePdf: true,
+      visiblePrice: true,
+    },
+    images: [
+      { id: "i1", url: "/uploads/a.jpg", sortOrder: 0 },
+      { id: "i2", url: "/uploads/b.jpg", sortOrder: 1 },
+    ],
+    categories: [
+      { categoryId: "c1", isPrimary: true },
+      { categoryId: "c2", isPrimary: false },
+    ],
+    variants: [
+      {
+        id: "v1",
+        name: "1 gal",
+        price: "10.00",
+        stock: 5,
+        active: true,
+        sortOrder: 10,
+        sku: "FF-1",
+        imageUrl: null,
+        images: [],
+      },
+      {
+        id: "v2",
+        name: "5 gal",
+        price: "45.00",
+        stock: 2,
+        active: true,
+        sortOrder: 20,
+        sku: "FF-5",
+        imageUrl: null,
+        images: [],
+      },
+    ],
+  };
+}
+
+describe("diffSnapshots", () => {
+  it("reports nothing for identical snapshots", () => {
+    assert.deepEqual(diffSnapshots(snapshot(), snapshot()), {
+      product: {},
+      images: null,
+      categories: null,
+      variants: { added: [], removed: [], changed: [] },
+    });
+  });
+
+  it("lists changed product fields with from/to", () => {
+    const b = snapshot();
+    b.product.price = "12.50";
+    b.product.packageSize = "4 x 1 gal";
+    assert.deepEqual(diffSnapshots(snapshot(), b).product, {
+      price: { from: "10.00", to: "12.50" },
+      packageSize: { from: null, to: "4 x 1 gal" },
+    });
+  });
+
+  it("compares the gallery by URL and order", () => {
+    const b = snapshot();
+    b.images = [
+      { id: "i2", url: "/uploads/b.jpg", sortOrder: 0 },
+      { id: "i3", url: "/uploads/c.jpg", sortOrder: 1 },
+    ];
+    assert.deepEqual(diffSnapshots(snapshot(), b).images, {
+      from: ["/uploads/a.jpg", "/uploads/b.jpg"],
+      to: ["/uploads/b.jpg", "/uploads/c.jpg"],
+      added: ["/uploads/c.jpg"],
+      removed: ["/uploads/a.jpg"],
+    });
+
+    const reordered = snapshot();
+    reordered.images.reverse();
+    assert.ok(diffSnapshots(snapshot(), reordered).images);
+  });
+
+  it("reports category links and primary changes", () => {
+    const b = snapshot();
+    b.categories = [
+      { categoryId: "c2", isPrimary: true },
+      { categoryId: "c3", isPrimary: false },
+    ];
+    assert.deepEqual(diffSnapshots(snapshot(), b).categories, {
+      added: ["c3"],
+      removed: ["c1"],
+      primary: { from: "c1", to: "c2" },
+    });
+  });
+
+  it("matches variants by id", () => {
+    const b = snapshot();
+    b.variants[0].price = "11.00";
+    b.variants[0].images = [{ id: "vi1", url: "/uploads/v.jpg", sortOrder: 0 }];
+    b.variants.splice(1, 1, { ...b.variants[1], id: "v3", name: "55 gal" });
+    const { variants } = diffSnapshots(snapshot(), b);
+    assert.deepEqual(
+      variants.added.map((v) => v.id),
+      ["v3"]
+    );
+    assert.deepEqual(
+      variants.removed.map((v) => v.id),
+      ["v2"]
+    );
+    assert.deepEqual(variants.changed, [
+      {
+        id: "v1",
+        name: "1 gal",
+        changes: {
+          price: { from: "10.00", to: "11.00" },
+          images: {
+            from: [],
+            to: ["/uploads/v.jpg"],
+            added: ["/uploads/v.jpg"],
+            removed: [],
+          },
+        },
+      },
+    ]);
+  });
+});
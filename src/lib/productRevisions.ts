@@ -0,0 +1,418 @@
+// src/lib/productRevisions.ts
+// Histórico de produtos: cada escrita admin grava um snapshot JSON completo
+// (campos, imagens, categorias, variantes + galerias) em ProductRevision.
+// O restore regrava tudo a partir do snapshot, preservando os ids.
+// Arquivos só são apagados do storage quando nem o produto nem uma revisão
+// guardada apontam mais para eles.
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { removeMedia } from "./media";
+import { removeStoredUrl } from "./storage";
+
+/** quantas revisões manter por produto (as mais antigas são podadas) */
+const KEEP = Number(process.env.PRODUCT_REVISIONS_KEEP || 50);
+
+type Db = Prisma.TransactionClient;
+
+export type RevisionAction =
+  | "baseline"
+  | "create"
+  | "update"
+  | "archive"
+  | "unarchive"
+  | "visibility"
+  | "media"
+  | "import"
+  | "restore";
+
+export type RevisionActor = { id?: string; email?: string } | undefined;
+
+type SnapshotImage = { id: string; url: string; sortOrder: number };
+
+export type ProductSnapshot = {
+  version: 1;
+  product: {
+    name: string;
+    slug: string;
+    description: string;
+    price: string; // Decimal como texto, sem perder precisão
+    imageUrl: string;
+    active: boolean;
+    stock: number;
+    sortOrder: number;
+    packageSize: string | null;
+    pdfUrl: string | null;
+    visibleDescription: boolean;
+    visibleImages: boolean;
+    visiblePackageSize: boolean;
+    visiblePdf: boolean;
+    visiblePrice: boolean;
+  };
+  images: SnapshotImage[];
+  categories: { categoryId: string; isPrimary: boolean }[];
+  variants: {
+    id: string;
+    name: string;
+    price: string;
+    stock: number;
+    active: boolean;
+    sortOrder: number;
+    sku: string | null;
+    imageUrl: string | null;
+    images: SnapshotImage[];
+  }[];
+};
+
+const imageSelect = {
+  select: { id: true, url: true, sortOrder: true },
+  orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+} satisfies Prisma.ProductImageFindManyArgs;
+
+const snapshotSelect = {
+  name: true,
+  slug: true,
+  description: true,
+  price: true,
+  imageUrl: true,
+  active: true,
+  stock: true,
+  sortOrder: true,
+  packageSize: true,
+  pdfUrl: true,
+  visibleDescription: true,
+  visibleImages: true,
+  visiblePackageSize: true,
+  visiblePdf: true,
+  visiblePrice: true,
+  images: imageSelect,
+  categories: {
+    select: { categoryId: true, isPrimary: true },
+    orderBy: { categoryId: "asc" },
+  },
+  variants: {
+    select: {
+      id: true,
+      name: true,
+      price: true,
+      stock: true,
+      active: true,
+      sortOrder: true,
+      sku: true,
+      imageUrl: true,
+      images: imageSelect,
+    },
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+  },
+} satisfies Prisma.ProductSelect;
+
+/** estado atual do produto; null se não existir */
+export async function takeSnapshot(
+  productId: string,
+  db: Db = prisma
+): Promise<ProductSnapshot | null> {
+  const p = await db.product.findUnique({
+    where: { id: productId },
+    select: snapshotSelect,
+  });
+  if (!p) return null;
+  const { images, categories, variants, ...fields } = p;
+  return {
+    version: 1,
+    product: { ...fields, price: fields.price.toString() },
+    images,
+    categories,
+    variants: variants.map((v) => ({ ...v, price: v.price.toString() })),
+  };
+}
+
+/** JSON com chaves ordenadas (o jsonb do Postgres reordena as chaves) */
+function stableJson(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableJson).join(",")}]`;
+  if (v && typeof v === "object")
+    return `{${Object.keys(v)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableJson((v as any)[k])}`)
+      .join(",")}}`;
+  return JSON.stringify(v);
+}
+
+/**
+ * Grava o estado atual como revisão. Escritas que não mudaram nada em
+ * relação à última revisão não geram entrada (exceto create/restore).
+ * Fora de transação já poda as antigas; dentro de uma, quem a abriu chama
+ * pruneRevisions depois do commit.
+ */
+export async function recordRevision(
+  productId: string,
+  action: RevisionAction,
+  actor: RevisionActor,
+  db: Db = prisma,
+  note?: string
+) {
+  const snapshot = await takeSnapshot(productId, db);
+  if (!snapshot) return null;
+
+  if (action !== "create" && action !== "restore") {
+    const last = await db.productRevision.findFirst({
+      where: { productId },
+      orderBy: { createdAt: "desc" },
+      select: { snapshot: true },
+    });
+    if (last && stableJson(last.snapshot) === stableJson(snapshot)) return null;
+  }
+
+  const rev = await db.productRevision.create({
+    data: {
+      productId,
+      action,
+      snapshot: snapshot as unknown as Prisma.InputJsonValue,
+      note: note ?? null,
+      actorId: actor?.id ?? null,
+      actorEmail: actor?.email ?? null,
+    },
+    select: { id: true },
+  });
+
+  if (db === prisma) await pruneRevisions(productId);
+  return rev.id;
+}
+
+/**
+ * Apaga as revisões além de KEEP e, em seguida, os arquivos que só elas
+ * ainda seguravam. Não recebe `db`: o storage só pode ser limpo depois que
+ * a remoção das revisões foi commitada.
+ */
+export async function pruneRevisions(productId: string) {
+  const stale = await prisma.productRevision.findMany({
+    where: { productId },
+    orderBy: { createdAt: "desc" },
+    skip: KEEP,
+    select: { id: true, snapshot: true },
+  });
+  if (!stale.length) return;
+  await prisma.productRevision.deleteMany({
+    where: { id: { in: stale.map((r) => r.id) } },
+  });
+
+  const urls = new Set(
+    stale.flatMap((r) => snapshotUrls(r.snapshot as unknown as ProductSnapshot))
+  );
+  for (const url of urls) await releaseUrl(url);
+}
+
+/**
+ * Produtos anteriores ao histórico não têm revisão: antes da primeira
+ * escrita, guarda o estado atual como "baseline" para poder voltar a ele.
+ */
+export async function ensureBaseline(productId: string, db: Db = prisma) {
+  const any = await db.productRevision.findFirst({
+    where: { productId },
+    select: { id: true },
+  });
+  if (!any) await recordRevision(productId, "baseline", undefined, db);
+}
+
+/** baseline (se preciso) -> escrita -> revisão; para escritas fora de transação */
+export async function withRevision<T>(
+  productId: string,
+  action: RevisionAction,
+  actor: RevisionActor,
+  write: () => Promise<T>
+): Promise<T> {
+  await ensureBaseline(productId);
+  const out = await write();
+  await recordRevision(productId, action, actor);
+  return out;
+}
+
+/** =========================
+ *  Arquivos
+ *  ========================= */
+
+/** URLs de arquivos citadas num snapshot (capa, PDF, galerias) */
+function snapshotUrls(s: ProductSnapshot) {
+  return [
+    s.product.imageUrl,
+    s.product.pdfUrl,
+    ...s.images.map((i) => i.url),
+    ...s.variants.flatMap((v) => [v.imageUrl, ...v.images.map((i) => i.url)]),
+  ].filter((u): u is string => !!u);
+}
+
+/**
+ * true se alguma revisão guardada ainda aponta para o arquivo — ele não
+ * pode ser apagado enquanto um restore puder trazê-lo de volta.
+ */
+async function isUrlInRevisions(url: string) {
+  const patterns = [
+    { product: { imageUrl: url } },
+    { product: { pdfUrl: url } },
+    { images: [{ url }] },
+    { variants: [{ imageUrl: url }] },
+    { variants: [{ images: [{ url }] }] },
+  ].map((p) => JSON.stringify(p));
+  const [row] = await prisma.$queryRaw<Array<{ n: number }>>`
+    SELECT count(*)::int AS n FROM "ProductRevision"
+     WHERE "snapshot" @> ${patterns[0]}::jsonb
+        OR "snapshot" @> ${patterns[1]}::jsonb
+        OR "snapshot" @> ${patterns[2]}::jsonb
+        OR "snapshot" @> ${patterns[3]}::jsonb
+        OR "snapshot" @> ${patterns[4]}::jsonb
+  `;
+  return (row?.n ?? 0) > 0;
+}
+
+/** uma URL pode estar em mais de um lugar (capa + galeria, variante…) */
+async function isUrlInUse(url: string) {
+  const [products, images, variants, variantImages] = await Promise.all([
+    prisma.product.count({
+      where: { OR: [{ imageUrl: url }, { pdfUrl: url }] },
+    }),
+    prisma.productImage.count({ where: { url } }),
+    prisma.productVariant.count({ where: { imageUrl: url } }),
+    prisma.productVariantImage.count({ where: { url } }),
+  ]);
+  if (products + images + variants + variantImages > 0) return true;
+  return isUrlInRevisions(url); // restore ainda pode precisar do arquivo
+}
+
+/** apaga o arquivo (e derivados) só quando nada mais aponta para ele */
+export async function releaseUrl(url: string | null | undefined) {
+  if (!url || (await isUrlInUse(url))) return false;
+  await removeMedia(url);
+  return removeStoredUrl(url);
+}
+
+/** =========================
+ *  Diff
+ *  ========================= */
+type Change = { from: unknown; to: unknown };
+
+function fieldChanges<T extends Record<string, unknown>>(a: T, b: T) {
+  const out: Record<string, Change> = {};
+  for (const k of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (JSON.stringify(a[k]) !== JSON.stringify(b[k]))
+      out[k] = { from: a[k] ?? null, to: b[k] ?? null };
+  }
+  return out;
+}
+
+function galleryDiff(a: SnapshotImage[], b: SnapshotImage[]) {
+  const from = a.map((i) => i.url);
+  const to = b.map((i) => i.url);
+  if (JSON.stringify(from) === JSON.stringify(to)) return null;
+  return {
+    from,
+    to,
+    added: to.filter((u) => !from.includes(u)),
+    removed: from.filter((u) => !to.includes(u)),
+  };
+}
+
+/** diferenças de `a` para `b` (só o que mudou) */
+export function diffSnapshots(a: ProductSnapshot, b: ProductSnapshot) {
+  const aCats = a.categories.map((c) => c.categoryId);
+  const bCats = b.categories.map((c) => c.categoryId);
+  const aPrimary = a.categories.find((c) => c.isPrimary)?.categoryId ?? null;
+  const bPrimary = b.categories.find((c) => c.isPrimary)?.categoryId ?? null;
+
+  const aVars = new Map(a.variants.map((v) => [v.id, v]));
+  const bVars = new Map(b.variants.map((v) => [v.id, v]));
+  const changed = b.variants
+    .filter((v) => aVars.has(v.id))
+    .map((v) => {
+      const prev = aVars.get(v.id)!;
+      const { images: prevImages, ...prevFields } = prev;
+      const { images, ...fields } = v;
+      const changes = fieldChanges(prevFields, fields);
+      const gallery = galleryDiff(prevImages, images);
+      if (gallery) changes.images = gallery;
+      return { id: v.id, name: v.name, changes };
+    })
+    .filter((v) => Object.keys(v.changes).length);
+
+  return {
+    product: fieldChanges(a.product, b.product),
+    images: galleryDiff(a.images, b.images),
+    categories:
+      JSON.stringify(aCats) === JSON.stringify(bCats) && aPrimary === bPrimary
+        ? null
+        : {
+            added: bCats.filter((id) => !aCats.includes(id)),
+            removed: aCats.filter((id) => !bCats.includes(id)),
+            primary:
+              aPrimary === bPrimary ? null : { from: aPrimary, to: bPrimary },
+          },
+    variants: {
+      added: b.variants.filter((v) => !aVars.has(v.id)),
+      removed: a.variants.filter((v) => !bVars.has(v.id)),
+      changed,
+    },
+  };
+}
+
+/** =========================
+ *  Restore
+ *  ========================= */
+
+/**
+ * Regrava o produto como no snapshot, dentro da transação `db`: imagens e
+ * variantes voltam com os mesmos ids (pedidos antigos continuam ligados às
+ * variantes). Categorias apagadas desde então ficam de fora. Estoque não
+ * volta: é inventário, não conteúdo (variantes recriadas começam em 0).
+ */
+export async function applySnapshot(
+  productId: string,
+  snap: ProductSnapshot,
+  db: Db
+) {
+  const { stock: _stock, ...fields } = snap.product;
+  await db.product.update({ where: { id: productId }, data: fields });
+
+  await db.productImage.deleteMany({ where: { productId } });
+  if (snap.images.length)
+    await db.productImage.createMany({
+      data: snap.images.map((im) => ({ ...im, productId })),
+    });
+
+  const known = new Set(
+    (
+      await db.category.findMany({
+        where: { id: { in: snap.categories.map((c) => c.categoryId) } },
+        select: { id: true },
+      })
+    ).map((c) => c.id)
+  );
+  const links = snap.categories.filter((c) => known.has(c.categoryId));
+  if (links.length && !links.some((l) => l.isPrimary))
+    links[0] = { ...links[0], isPrimary: true };
+  await db.productCategory.deleteMany({ where: { productId } });
+  if (links.length)
+    await db.productCategory.createMany({
+      data: links.map((l) => ({ ...l, productId })),
+    });
+
+  const keepIds = snap.variants.map((v) => v.id);
+  await db.productVariant.deleteMany({
+    where: { productId, id: { notIn: keepIds } },
+  });
+  for (const { images, stock: _stock, ...v } of snap.variants) {
+    const { id, ...fields } = v;
+    await db.productVariant.upsert({
+      where: { id },
+      update: fields,
+      create: { ...v, productId },
+    });
+    await db.productVariantImage.deleteMany({ where: { variantId: id } });
+    if (images.length)
+      await db.productVariantImage.createMany({
+        data: images.map((im) => ({ ...im, variantId: id })),
+      });
+  }
+
+  return {
+    missingCategories: snap.categories
+      .filter((c) => !known.has(c.categoryId))
+      .map((c) => c.categoryId),
+  };
+}
@@ -0,0 +1,280 @@
+// src/lib/quote.ts
+// Documento de cotação (PDF) gerado em Node puro com pdfkit — sem browser,
+// fontes padrão embutidas (Helvetica), funciona offline.
+import PDFDocument from "pdfkit";
+import jwt from "jsonwebtoken";
+import type { EmailOrder } from "./mailer";
+import { money } from "./mailer";
+
+const QUOTE_VALID_DAYS = Number(process.env.QUOTE_VALID_DAYS || 30);
+const QUOTE_LINK_TTL = ttlSeconds(process.env.QUOTE_LINK_TTL);
+
+/** "30d", "12h", "45m", "90s" ou segundos; inválido cai em 30 dias */
+function ttlSeconds(raw: string | undefined): number {
+  const m = /^(\d+)\s*([smhd]?)$/i.exec(raw?.trim() || "");
+  if (!m) return 30 * 86400;
+  const unit: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+  return Number(m[1]) * (unit[m[2].toLowerCase()] ?? 1);
+}
+
+/** número legível da cotação: Q-AAAAMMDD-XXXXXX */
+export function quoteNumber(o: Pick<EmailOrder, "id" | "createdAt">): string {
+  const d = new Date(o.createdAt);
+  const ymd = d.toISOString().slice(0, 10).replace(/-/g, "");
+  return `Q-${ymd}-${o.id.slice(-6).toUpperCase()}`;
+}
+
+export function quoteValidUntil(o: Pick<EmailOrder, "createdAt">): Date {
+  const d = new Date(o.createdAt);
+  d.setUTCDate(d.getUTCDate() + QUOTE_VALID_DAYS);
+  return d;
+}
+
+/* ========== link público assinado ========== */
+
+function linkSecret() {
+  const secret = process.env.QUOTE_LINK_SECRET || process.env.JWT_SECRET;
+  if (!secret) throw new Error("JWT secret not set");
+  return secret;
+}
+
+export function signQuoteToken(orderId: string): string {
+  return jwt.sign({ sub: orderId, scope: "quote" }, linkSecret(), {
+    expiresIn: QUOTE_LINK_TTL,
+  });
+}
+
+/** retorna o orderId do token, ou null se inválido/expirado */
+export function verifyQuoteToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, linkSecret()) as any;
+    if (decoded?.scope !== "quote" || typeof decoded?.sub !== "string")
+      return null;
+    return decoded.sub;
+  } catch {
+    return null;
+  }
+}
+
+/* ========== PDF ========== */
+
+const BRAND = {
+  name: process.env.COMPANY_NAME || "Listo365",
+  tagline: process.env.COMPANY_TAGLINE || "Professional cleaning solutions",
+  contact: [process.env.COMPANY_ORDERS_EMAIL, process.env.COMPANY_PHONE]
+    .filter(Boolean)
+    .join("  ·  "),
+  color: process.env.COMPANY_BRAND_COLOR || "#0f4c81",
+};
+
+const MARGIN = 50;
+
+function fmtDate(d: Date | string) {
+  return new Date(d).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function addressLines(a: EmailOrder["address"]): string[] {
+  if (!a) return ["—"];
+  return [
+    a.line1,
+    a.line2 || "",
+    a.district || "",
+    [a.city || "", a.state || "", a.postalCode || ""].filter(Boolean).join(", "),
+    a.country || "US",
+  ].filter(Boolean);
+}
+
+/**
+ * Monta o PDF da cotação. O documento já vem finalizado (`end()`),
+ * basta fazer `pipe` para a resposta.
+ */
+export function buildQuotePdf(o: EmailOrder): PDFKit.PDFDocument {
+  const number = quoteNumber(o);
+  const currency = o.currency || "USD";
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: MARGIN,
+    info: { Title: `Quote ${number}`, Author: BRAND.name },
+  });
+  const width = doc.page.width - MARGIN * 2;
+  const right = MARGIN + width;
+
+  // ---- cabeçalho ----
+  doc
+    .fillColor(BRAND.color)
+    .font("Helvetica-Bold")
+    .fontSize(22)
+    .text(BRAND.name, MARGIN, MARGIN);
+  doc.fillColor("#555").font("Helvetica").fontSize(9).text(BRAND.tagline);
+  if (BRAND.contact) doc.text(BRAND.contact);
+
+  doc
+    .fillColor("#111")
+    .font("Helvetica-Bold")
+    .fontSize(18)
+    .text("QUOTE", MARGIN, MARGIN, { width, align: "right" });
+  doc
+    .font("Helvetica")
+    .fontSize(9)
+    .fillColor("#444")
+    .text(`No. ${number}`, { width, align: "right" })
+    .text(`Date: ${fmtDate(o.createdAt)}`, { width, align: "right" })
+    .text(`Valid until: ${fmtDate(quoteValidUntil(o))}`, {
+      width,
+      align: "right",
+    })
+    .text(`Reference: #${o.id}`, { width, align: "right" });
+
+  doc
+    .moveTo(MARGIN, 125)
+    .lineTo(right, 125)
+    .strokeColor(BRAND.color)
+    .lineWidth(1.5)
+    .stroke();
+
+  // ---- cliente / endereço ----
+  const colW = width / 2 - 10;
+  const blockTop = 140;
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(9)
+    .fillColor("#666")
+    .text("CUSTOMER", MARGIN, blockTop)
+    .text("SHIP TO", MARGIN + colW + 20, blockTop);
+
+  doc.font("Helvetica").fontSize(10).fillColor("#111");
+  const customerLines = [
+    o.customer.name,
+    o.customer.company || "",
+    o.customer.email,
+    o.customer.phone || "",
+  ].filter(Boolean);
+  doc.text(customerLines.join("\n"), MARGIN, blockTop + 14, { width: colW });
+  const leftBottom = doc.y;
+  doc.text(
+    addressLines(o.address).join("\n"),
+    MARGIN + colW + 20,
+    blockTop + 14,
+    { width: colW }
+  );
+  let y = Math.max(leftBottom, doc.y) + 20;
+
+  // ---- itens ----
+  const cols = [
+    { key: "item", label: "Item", w: width * 0.44, align: "left" as const },
+    { key: "sku", label: "SKU", w: width * 0.18, align: "left" as const },
+    { key: "qty", label: "Qty", w: width * 0.08, align: "right" as const },
+    { key: "unit", label: "Unit", w: width * 0.15, align: "right" as const },
+    { key: "total", label: "Total", w: width * 0.15, align: "right" as const },
+  ];
+
+  const drawHeader = () => {
+    doc.rect(MARGIN, y, width, 18).fill("#f3f5f8");
+    let x = MARGIN;
+    doc.font("Helvetica-Bold").fontSize(9).fillColor("#333");
+    for (const c of cols) {
+      doc.text(c.label, x + 4, y + 5, { width: c.w - 8, align: c.align });
+      x += c.w;
+    }
+    y += 22;
+  };
+  drawHeader();
+
+  doc.font("Helvetica").fontSize(9).fillColor("#111");
+  for (const it of o.items) {
+    const name =
+      (it.productName || it.productId) +
+      (it.variantName ? ` — ${it.variantName}` : "");
+    const cells: Record<string, string> = {
+      item: name,
+      sku: it.sku || "—",
+      qty: String(it.quantity),
+      unit: money(it.unitPrice, currency),
+      total: money(it.unitPrice * it.quantity, currency),
+    };
+    const rowH =
+      Math.max(
+        ...cols.map((c) =>
+          doc.heightOfString(cells[c.key], { width: c.w - 8 })
+        )
+      ) + 8;
+
+    if (y + rowH > doc.page.height - MARGIN - 90) {
+      doc.addPage();
+      y = MARGIN;
+      drawHeader();
+      doc.font("Helvetica").fontSize(9).fillColor("#111");
+    }
+
+    let x = MARGIN;
+    for (const c of cols) {
+      doc.text(cells[c.key], x + 4, y + 4, { width: c.w - 8, align: c.align });
+      x += c.w;
+    }
+    y += rowH;
+    doc
+      .moveTo(MARGIN, y)
+      .lineTo(right, y)
+      .strokeColor("#e5e7eb")
+      .lineWidth(0.5)
+      .stroke();
+  }
+
+  // ---- totais ----
+  y += 10;
+  const labelX = right - 200;
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .fillColor("#333")
+    .text("Subtotal", labelX, y, { width: 100, align: "right" })
+    .text(money(o.subtotal, currency), labelX + 100, y, {
+      width: 100,
+      align: "right",
+    });
+  y += 18;
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(12)
+    .fillColor("#111")
+    .text("Total", labelX, y, { width: 100, align: "right" })
+    .text(money(o.total, currency), labelX + 100, y, {
+      width: 100,
+      align: "right",
+    });
+  y += 30;
+
+  // ---- observações ----
+  if (o.note) {
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(9)
+      .fillColor("#666")
+      .text("CUSTOMER NOTE", MARGIN, y);
+    doc.font("Helvetica").fontSize(9).fillColor("#222").text(o.note, {
+      width,
+    });
+    y = doc.y + 16;
+  }
+
+  doc
+    .font("Helvetica")
+    .fontSize(8)
+    .fillColor("#777")
+    .text(
+      `Prices in ${currency}. This quote is valid until ${fmtDate(
+        quoteValidUntil(o)
+      )} and is subject to product availability. Taxes and freight, when applicable, are not included.`,
+      MARGIN,
+      Math.max(y, doc.page.height - MARGIN - 40),
+      { width, align: "center" }
+    );
+
+  doc.end();
+  return doc;
+}
@@ -0,0 +1,119 @@
+// src/lib/recurrence.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { nextDueDate, parseRecurrence } from "./recurrence";
+import { advancePast } from "./recurringOrders";
+
+const utc = (s: string) => new Date(`${s}T12:00:00.000Z`);
+const day = (d: Date) => d.toISOString().slice(0, 10);
+
+describe("parseRecurrence", () => {
+  it("treats empty/none/once as a one-off order", () => {
+    for (const raw of [null, undefined, "", "  ", "none", "ONCE"])
+      assert.equal(parseRecurrence(raw), null);
+  });
+
+  it("maps named rules", () => {
+    assert.deepEqual(parseRecurrence("Weekly"), { unit: "days", every: 7 });
+    assert.deepEqual(parseRecurrence("biweekly"), { unit: "days", every: 14 });
+    assert.deepEqual(parseRecurrence("quarterly"), {
+      unit: "months",
+      every: 3,
+    });
+  });
+
+  it("parses every N days/weeks/months", () => {
+    assert.deepEqual(parseRecurrence("every 10 days"), {
+      unit: "days",
+      every: 10,
+    });
+    assert.deepEqual(parseRecurrence("every 2 weeks"), {
+      unit: "days",
+      every: 14,
+    });
+    assert.deepEqual(parseRecurrence("every 2 months"), {
+      unit: "months",
+      every: 2,
+    });
+    assert.deepEqual(parseRecurrence("every:5"), { unit: "days", every: 5 });
+  });
+
+  it("uses intervalDays for custom and for an empty rule", () => {
+    assert.deepEqual(parseRecurrence("custom", 45), {
+      unit: "days",
+      every: 45,
+    });
+    assert.deepEqual(parseRecurrence(null, 30), { unit: "days", every: 30 });
+  });
+
+  it("rejects invalid rules", () => {
+    for (const [raw, days] of [
+      ["fortnightly", null],
+      ["custom", null],
+      ["every 0 days", null],
+      ["every 400 days", null],
+      ["every 13 months", null],
+      ["custom", 1.5],
+    ] as const)
+      assert.throws(() => parseRecurrence(raw, days), /invalid_recurrence/);
+  });
+});
+
+describe("nextDueDate", () => {
+  it("adds days", () => {
+    const rule = { unit: "days", every: 10 } as const;
+    assert.equal(day(nextDueDate(rule, utc("2026-02-25"))), "2026-03-07");
+  });
+
+  it("clamps month ends to the last day of the month", () => {
+    const rule = { unit: "months", every: 1 } as const;
+    assert.equal(day(nextDueDate(rule, utc("2026-01-31"))), "2026-02-28");
+    assert.equal(day(nextDueDate(rule, utc("2028-01-31"))), "2028-02-29");
+  });
+
+  it("keeps the anchor day after a short month", () => {
+    const rule = { unit: "months", every: 1 } as const;
+    const anchor = utc("2026-01-31");
+    const feb = nextDueDate(rule, anchor, anchor);
+    assert.equal(day(nextDueDate(rule, feb, anchor)), "2026-03-31");
+  });
+
+  it("crosses the year boundary", () => {
+    const rule = { unit: "months", every: 3 } as const;
+    assert.equal(day(nextDueDate(rule, utc("2026-11-15"))), "2027-02-15");
+  });
+});
+
+describe("advancePast", () => {
+  const weekly = { unit: "days", every: 7 } as const;
+
+  it("returns the next date when nothing was missed", () => {
+    const from = utc("2026-03-01");
+    const next = advancePast(weekly, from, from, utc("2026-03-02"));
+    assert.equal(day(next), "2026-03-08");
+  });
+
+  it("skips missed cycles up to the first future date", () => {
+    const from = utc("2026-03-01");
+    const next = advancePast(weekly, from, from, utc("2026-03-20"));
+    assert.equal(day(next), "2026-03-22");
+  });
+
+  it("never returns a date equal to now", () => {
+    const from = utc("2026-03-01");
+    const next = advancePast(weekly, from, from, utc("2026-03-08"));
+    assert.equal(day(next), "2026-03-15");
+  });
+
+  it("keeps the monthly anchor while skipping", () => {
+    const monthly = { unit: "months", every: 1 } as const;
+    const anchor = utc("2026-01-31");
+    const next = advancePast(monthly, anchor, anchor, utc("2026-03-05"));
+    assert.equal(day(next), "2026-03-31");
+  });
+
+  it("returns `from` without a rule", () => {
+    const from = utc("2026-03-01");
+    assert.equal(advancePast(null, from, from), from);
+  });
+});
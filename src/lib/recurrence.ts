@@ -0,0 +1,119 @@
+// src/lib/recurrence.ts
+// Regras de recorrência de pedidos: "weekly", "biweekly", "monthly",
+// "quarterly", "every 10 days", "every 2 months" ou "custom" + intervalDays.
+
+export type RecurrenceRule =
+  | { unit: "days"; every: number }
+  | { unit: "months"; every: number };
+
+const NAMED: Record<string, RecurrenceRule> = {
+  daily: { unit: "days", every: 1 },
+  weekly: { unit: "days", every: 7 },
+  biweekly: { unit: "days", every: 14 },
+  monthly: { unit: "months", every: 1 },
+  bimonthly: { unit: "months", every: 2 },
+  quarterly: { unit: "months", every: 3 },
+};
+
+const MAX_DAYS = 366;
+const MAX_MONTHS = 12;
+
+/**
+ * Converte o texto livre de recorrência em regra.
+ * - null/""/"none" → null (pedido avulso)
+ * - formato inválido → lança Error("invalid_recurrence")
+ */
+export function parseRecurrence(
+  raw: string | null | undefined,
+  intervalDays?: number | null
+): RecurrenceRule | null {
+  const text = String(raw ?? "")
+    .trim()
+    .toLowerCase();
+  if (!text || text === "none" || text === "once") {
+    return intervalDays ? daysRule(intervalDays) : null;
+  }
+
+  if (NAMED[text]) return NAMED[text];
+  if (text === "custom") {
+    if (!intervalDays) throw new Error("invalid_recurrence");
+    return daysRule(intervalDays);
+  }
+
+  // "every 10 days" | "every 2 weeks" | "every 3 months" | "every:10"
+  const m =
+    /^every\s*[: ]\s*(\d+)\s*(day|days|week|weeks|month|months)?$/.exec(text);
+  if (m) {
+    const n = Number(m[1]);
+    const unit = m[2] || "days";
+    if (unit.startsWith("week")) return daysRule(n * 7);
+    if (unit.startsWith("month")) {
+      if (n < 1 || n > MAX_MONTHS) throw new Error("invalid_recurrence");
+      return { unit: "months", every: n };
+    }
+    return daysRule(n);
+  }
+
+  throw new Error("invalid_recurrence");
+}
+
+function daysRule(n: number): RecurrenceRule {
+  if (!Number.isInteger(n) || n < 1 || n > MAX_DAYS)
+    throw new Error("invalid_recurrence");
+  return { unit: "days", every: n };
+}
+
+/** intervalo aproximado em dias (para gravar em OrderInquiry.intervalDays) */
+export function approxIntervalDays(rule: RecurrenceRule): number {
+  return rule.unit === "days" ? rule.every : rule.every * 30;
+}
+
+/** texto canônico da regra (para exibição / persistência) */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const named = Object.entries(NAMED).find(
+    ([, r]) => r.unit === rule.unit && r.every === rule.every
+  );
+  if (named) return named[0];
+  return `every ${rule.every} ${rule.unit}`;
+}
+
+/**
+ * Próxima data a partir de `from`. Meses preservam o dia do mês de `anchor`
+ * (default: `from`), ajustando para o último dia quando ele não existe
+ * (31 → 30/28) sem "escorregar" nos ciclos seguintes.
+ */
+export function nextDueDate(
+  rule: RecurrenceRule,
+  from: Date,
+  anchor: Date = from
+): Date {
+  const d = new Date(from.getTime());
+  if (rule.unit === "days") {
+    d.setUTCDate(d.getUTCDate() + rule.every);
+    return d;
+  }
+  const day = anchor.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + rule.every);
+  const lastDay = new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d;
+}
+
+/** próximas `count` datas a partir de `first` (inclusive) */
+export function upcomingDates(
+  rule: RecurrenceRule,
+  first: Date,
+  count: number,
+  anchor: Date = first
+): Date[] {
+  const out: Date[] = [];
+  let cur = first;
+  for (let i = 0; i < count; i++) {
+    out.push(cur);
+    cur = nextDueDate(rule, cur, anchor);
+  }
+  return out;
+}
@@ -0,0 +1,198 @@
+// src/lib/recurringOrders.ts
+// Motor de pedidos recorrentes: a cada tick, clona os itens das séries
+// vencidas (OrderInquiry raiz com recurrenceStatus=ACTIVE) em um novo
+// pedido RECEIVED vinculado à raiz (com os e-mails de novo pedido), e
+// avança nextRunAt.
+import { prisma } from "./prisma";
+import { OrderItemError, calcTotals, priceOrderItems } from "./pricing";
+import { nextDueDate, parseRecurrence } from "./recurrence";
+import { sendNewOrderEmails, toEmailOrder } from "./mailer";
+import { kickEmailQueue } from "./emailQueue";
+
+export type RecurrenceStatus = "ACTIVE" | "PAUSED" | "CANCELLED";
+
+/** status da raiz que encerram a série automaticamente */
+const DEAD_ROOT_STATUSES = ["REFUSED", "CANCELLED"];
+
+/** avança a partir de `from` até a primeira data futura (pula ciclos perdidos) */
+export function advancePast(
+  rule: ReturnType<typeof parseRecurrence>,
+  from: Date,
+  anchor: Date,
+  now = new Date()
+): Date {
+  if (!rule) return from;
+  let next = nextDueDate(rule, from, anchor);
+  while (next <= now) next = nextDueDate(rule, next, anchor);
+  return next;
+}
+
+/** gera o pedido do ciclo atual de uma série; retorna o id criado ou null */
+async function spawnCycle(rootId: string, now: Date): Promise<string | null> {
+  const root = await prisma.orderInquiry.findUnique({
+    where: { id: rootId },
+    include: {
+      items: { select: { productId: true, variantId: true, quantity: true } },
+    },
+  });
+  if (!root || root.recurrenceStatus !== "ACTIVE" || !root.nextRunAt)
+    return null;
+
+  let rule: ReturnType<typeof parseRecurrence>;
+  try {
+    rule = parseRecurrence(root.recurrence, root.intervalDays);
+  } catch {
+    rule = null;
+  }
+  if (!rule) {
+    await prisma.orderInquiry.update({
+      where: { id: root.id },
+      data: { recurrenceStatus: "PAUSED" },
+    });
+    console.warn(`[recurring] ${root.id}: invalid recurrence, series paused`);
+    return null;
+  }
+
+  const dueAt = root.nextRunAt;
+  const next = advancePast(rule, dueAt, root.createdAt, now);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // "claim" otimista: evita ciclo duplicado com várias instâncias
+      const claim = await tx.orderInquiry.updateMany({
+        where: { id: root.id, recurrenceStatus: "ACTIVE", nextRunAt: dueAt },
+        data: { nextRunAt: next },
+      });
+      if (claim.count === 0) return null;
+
+      const priced = await priceOrderItems(tx, root.items, now);
+      const totals = calcTotals(priced);
+
+      const child = await tx.orderInquiry.create({
+        data: {
+          parentOrderId: root.id,
+          customerId: root.customerId,
+          addressId: root.addressId,
+          status: "RECEIVED",
+          note: root.note,
+          customerName: root.customerName,
+          customerEmail: root.customerEmail,
+          customerPhone: root.customerPhone,
+          subtotal: totals.subtotal,
+          total: totals.total,
+          currency: root.currency,
+          items: {
+            create: priced.map((it) => ({
+              productId: it.productId,
+              variantId: it.variantId,
+              variantName: it.variantName,
+              quantity: it.quantity,
+              unitPrice: it.unitPrice,
+            })),
+          },
+          statusEvents: {
+            create: {
+              fromStatus: null,
+              toStatus: "RECEIVED",
+              reason: `Recurring order from #${root.id} (due ${dueAt.toISOString()})`,
+            },
+          },
+        },
+        include: {
+          customer: true,
+          address: true,
+          items: {
+            include: {
+              product: { select: { name: true } },
+              variant: { select: { name: true, sku: true } },
+            },
+          },
+        },
+      });
+      // mesmas notificações do POST /orders, na mesma transação
+      await sendNewOrderEmails(toEmailOrder(child), tx);
+      return child.id;
+    });
+  } catch (e: any) {
+    if (e instanceof OrderItemError) {
+      // produto/variante saiu do catálogo: pausa a série para revisão manual
+      await prisma.orderInquiry.update({
+        where: { id: root.id },
+        data: { recurrenceStatus: "PAUSED" },
+      });
+      console.warn(
+        `[recurring] ${root.id}: item ${e.index} ${e.code}, series paused`
+      );
+      return null;
+    }
+    throw e;
+  }
+}
+
+/** processa todas as séries vencidas até `now` */
+export async function runDueRecurrences(now = new Date()) {
+  const due = await prisma.orderInquiry.findMany({
+    where: {
+      recurrenceStatus: "ACTIVE",
+      nextRunAt: { lte: now },
+      parentOrderId: null,
+    },
+    select: { id: true, status: true },
+    orderBy: { nextRunAt: "asc" },
+    take: 100,
+  });
+
+  const created: string[] = [];
+  let cancelled = 0;
+  for (const root of due) {
+    if (DEAD_ROOT_STATUSES.includes(root.status)) {
+      await prisma.orderInquiry.update({
+        where: { id: root.id },
+        data: { recurrenceStatus: "CANCELLED", nextRunAt: null },
+      });
+      cancelled++;
+      continue;
+    }
+    try {
+      const id = await spawnCycle(root.id, now);
+      if (id) created.push(id);
+    } catch (e: any) {
+      console.error(`[recurring] ${root.id} failed:`, e?.message || e);
+    }
+  }
+
+  if (created.length) kickEmailQueue();
+  if (created.length || cancelled)
+    console.log(
+      `[recurring] created ${created.length} order(s), cancelled ${cancelled} series`
+    );
+  return { created, cancelled };
+}
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Agenda o motor em processo (RECURRENCE_SCHEDULER=0 desliga;
+ * RECURRENCE_TICK_MS define o intervalo, default 15 min).
+ */
+export function startRecurrenceScheduler() {
+  if (timer || process.env.RECURRENCE_SCHEDULER === "0") return;
+  const every = Number(process.env.RECURRENCE_TICK_MS || 15 * 60 * 1000);
+
+  const tick = async () => {
+    try {
+      await runDueRecurrences();
+    } catch (e: any) {
+      console.warn("[recurring] tick failed:", e?.message || e);
+    }
+  };
+
+  timer = setInterval(tick, Math.max(60_000, every));
+  timer.unref?.();
+  setTimeout(tick, 10_000).unref?.(); // primeira passada logo após o boot
+}
+
+export function stopRecurrenceScheduler() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
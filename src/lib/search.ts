@@ -0,0 +1,233 @@
+// src/lib/search.ts
+// Busca full-text de produtos no Postgres: config "simple" (catálogo mistura
+// inglês e espanhol, então sem stemming) + unaccent nos dois lados.
+// Pesos: A = nome/SKU, B = categorias/embalagem, C = descrição.
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+const MAX_TERMS = 8;
+
+/** remove acentos como o unaccent do Postgres faz (á -> a, ñ -> n) */
+export function stripAccents(s: string) {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Texto livre -> tsquery com prefixo em todos os termos ("acab asom" acha
+ * "Acabado Asombroso"). Só sobram [a-z0-9], então é seguro para to_tsquery.
+ * Retorna null se não houver termos.
+ */
+export function toPrefixTsQuery(q: string): string | null {
+  const terms = stripAccents(q)
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .slice(0, MAX_TERMS);
+  if (!terms.length) return null;
+  return terms.map((t) => `${t}:*`).join(" & ");
+}
+
+/**
+ * Documento full-text do produto. Descrições ocultas ao público só entram
+ * na busca do admin.
+ */
+function productDocument(admin: boolean) {
+  return Prisma.sql`
+    setweight(to_tsvector('simple', unaccent(
+      coalesce(p."name", '') || ' ' ||
+      coalesce((SELECT string_agg(coalesce(v."sku", '') || ' ' || v."name", ' ')
+                  FROM "ProductVariant" v WHERE v."productId" = p."id"), '')
+    )), 'A') ||
+    setweight(to_tsvector('simple', unaccent(
+      coalesce(p."packageSize", '') || ' ' ||
+      coalesce((SELECT string_agg(c."name", ' ')
+                  FROM "ProductCategory" pc
+                  JOIN "Category" c ON c."id" = pc."categoryId"
+                 WHERE pc."productId" = p."id"), '')
+    )), 'B') ||
+    setweight(to_tsvector('simple', unaccent(
+      CASE WHEN p."visibleDescription" OR ${admin}
+           THEN coalesce(p."description", '') ELSE '' END
+    )), 'C')`;
+}
+
+/**
+ * Melhor preço promocional ativo (mesma regra de computeSale): null se não
+ * houver promoção que baixe o preço.
+ */
+function salePrice(now: Date) {
+  const at = now.toISOString();
+  return Prisma.sql`(
+    SELECT CASE WHEN best < p."price" THEN greatest(0, best) END
+      FROM (
+        SELECT round(min(least(
+                 CASE WHEN coalesce(pr."percentOff", 0) <> 0
+                      THEN p."price" * (1 - pr."percentOff" / 100.0)
+                      ELSE p."price" END,
+                 CASE WHEN coalesce(pr."priceOff", 0) <> 0
+                      THEN p."price" - pr."priceOff"
+                      ELSE p."price" END
+               )), 2) AS best
+          FROM "Promotion" pr
+         WHERE pr."productId" = p."id"
+           AND pr."active"
+           AND pr."startsAt" <= ${at}::timestamp
+           AND pr."endsAt" >= ${at}::timestamp
+           AND (coalesce(pr."percentOff", 0) <> 0 OR coalesce(pr."priceOff", 0) <> 0)
+      ) s
+  )`;
+}
+
+export type SearchSort =
+  | "relevance"
+  | "sortOrder"
+  | "name_asc"
+  | "name_desc"
+  | "price_asc"
+  | "price_desc";
+
+/** valores fixos: seguros para Prisma.raw */
+const SEARCH_ORDER: Record<SearchSort, string> = {
+  relevance: `"rank" DESC, "sortOrder" ASC`,
+  sortOrder: `"sortOrder" ASC, "createdAt" DESC`,
+  name_asc: `"name" ASC`,
+  name_desc: `"name" DESC`,
+  price_asc: `"price" ASC NULLS LAST, "name" ASC`,
+  price_desc: `"price" DESC NULLS LAST, "name" ASC`,
+};
+
+export type CatalogSearch = {
+  q: string;
+  /** slug ou id; qualquer categoria atribuída */
+  category: string[];
+  packageSize: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  onSale?: boolean;
+  sort: SearchSort;
+  page: number;
+  pageSize: number;
+  admin: boolean;
+  promos: boolean;
+};
+
+type FacetRow = {
+  total: number;
+  ids: string[];
+  categories: Array<{ id: string; name: string; slug: string; count: number }>;
+  sizes: Array<{ value: string; count: number }>;
+  price: {
+    min: number;
+    max: number;
+    buckets: Array<{ from: number; count: number }>;
+  } | null;
+  sale: { yes: number; no: number };
+};
+
+/**
+ * Busca + filtros + página + facets numa consulta só, tudo no Postgres.
+ * Cada facet conta ignorando o próprio filtro. Preço oculto ao público
+ * vale como desconhecido: não entra em filtro nem facet de preço e de
+ * promoção (estar em promoção revelaria o preço).
+ */
+export async function searchCatalog(f: CatalogSearch) {
+  const tsq = f.q ? toPrefixTsQuery(f.q) : null;
+  if (f.q && !tsq) return null;
+
+  const sizes = f.packageSize.map((s) => s.toLowerCase());
+  const priceFiltered = f.minPrice !== undefined || f.maxPrice !== undefined;
+  const sale = f.promos ? salePrice(new Date()) : Prisma.sql`NULL::numeric`;
+
+  const [row] = await prisma.$queryRaw<FacetRow[]>`
+    WITH base AS (
+      SELECT p."id", p."name", p."sortOrder", p."createdAt",
+             ${tsq ? Prisma.sql`ts_rank_cd(${productDocument(f.admin)}, query)::float8` : Prisma.sql`0::float8`} AS "rank",
+             CASE WHEN ${f.admin} OR p."visiblePackageSize"
+                  THEN nullif(p."packageSize", '') END AS "size",
+             CASE WHEN ${f.admin} OR p."visiblePrice"
+                  THEN coalesce(sp.v, p."price") END AS "price",
+             CASE WHEN ${f.admin} OR p."visiblePrice"
+                  THEN sp.v IS NOT NULL END AS "onSale"
+        FROM "Product" p
+        ${tsq ? Prisma.sql`CROSS JOIN to_tsquery('simple', ${tsq}) query` : Prisma.empty}
+        CROSS JOIN LATERAL (SELECT ${sale} AS v) sp
+       WHERE (${f.admin} OR p."active" = true)
+         ${tsq ? Prisma.sql`AND ${productDocument(f.admin)} @@ query` : Prisma.empty}
+    ),
+    flags AS (
+      SELECT b.*,
+             (cardinality(${f.category}::text[]) = 0 OR EXISTS (
+               SELECT 1 FROM "ProductCategory" pc
+                 JOIN "Category" c ON c."id" = pc."categoryId"
+                WHERE pc."productId" = b."id"
+                  AND (c."id" = ANY(${f.category}::text[])
+                       OR c."slug" = ANY(${f.category}::text[]))
+             )) AS "fCat",
+             (cardinality(${sizes}::text[]) = 0
+               OR coalesce(lower(b."size") = ANY(${sizes}::text[]), false)) AS "fSize",
+             (NOT ${priceFiltered} OR (b."price" IS NOT NULL
+               AND (${f.minPrice ?? null}::numeric IS NULL OR b."price" >= ${f.minPrice ?? null}::numeric)
+               AND (${f.maxPrice ?? null}::numeric IS NULL OR b."price" <= ${f.maxPrice ?? null}::numeric))) AS "fPrice",
+             (${f.onSale ?? null}::boolean IS NULL
+               OR coalesce(b."onSale" = ${f.onSale ?? null}::boolean, false)) AS "fSale"
+        FROM base b
+    )
+    SELECT
+      (SELECT count(*)::int FROM flags
+        WHERE "fCat" AND "fSize" AND "fPrice" AND "fSale") AS "total",
+      (SELECT coalesce(json_agg(pg."id"), '[]'::json) FROM (
+         SELECT "id" FROM flags
+          WHERE "fCat" AND "fSize" AND "fPrice" AND "fSale"
+          ORDER BY ${Prisma.raw(SEARCH_ORDER[f.sort])}, "id"
+          LIMIT ${f.pageSize} OFFSET ${(f.page - 1) * f.pageSize}
+       ) pg) AS "ids",
+      (SELECT coalesce(json_agg(json_build_object(
+                'id', x."id", 'name', x."name", 'slug', x."slug", 'count', x.n
+              ) ORDER BY x.n DESC, x."name"), '[]'::json) FROM (
+         SELECT c."id", c."name", c."slug", count(*)::int AS n
+           FROM flags fl
+           JOIN "ProductCategory" pc ON pc."productId" = fl."id"
+           JOIN "Category" c ON c."id" = pc."categoryId"
+          WHERE fl."fSize" AND fl."fPrice" AND fl."fSale"
+          GROUP BY c."id", c."name", c."slug"
+       ) x) AS "categories",
+      (SELECT coalesce(json_agg(json_build_object('value', x."size", 'count', x.n)
+              ORDER BY x.n DESC, x."size"), '[]'::json) FROM (
+         SELECT "size", count(*)::int AS n FROM flags
+          WHERE "size" IS NOT NULL AND "fCat" AND "fPrice" AND "fSale"
+          GROUP BY "size"
+       ) x) AS "sizes",
+      (SELECT CASE WHEN count(*) = 0 THEN NULL ELSE json_build_object(
+                'min', min(x."price"), 'max', max(x."price"),
+                'buckets', (SELECT json_agg(json_build_object('from', b."from", 'count', b.n)
+                                   ORDER BY b."from")
+                              FROM (SELECT "from", count(*)::int AS n
+                                      FROM (SELECT (SELECT max(e) FROM unnest(${PRICE_BUCKETS}::numeric[]) e
+                                                     WHERE e <= y."price") AS "from"
+                                              FROM flags y
+                                             WHERE y."price" IS NOT NULL
+                                               AND y."fCat" AND y."fSize" AND y."fSale") z
+                                     GROUP BY "from") b)
+              ) END
+         FROM flags x
+        WHERE x."price" IS NOT NULL AND x."fCat" AND x."fSize" AND x."fSale") AS "price",
+      (SELECT json_build_object(
+                'yes', count(*) FILTER (WHERE "onSale"),
+                'no', count(*) FILTER (WHERE NOT "onSale"))
+         FROM flags
+        WHERE "onSale" IS NOT NULL AND "fCat" AND "fSize" AND "fPrice") AS "sale"
+  `;
+  return row;
+}
+
+/** faixas de preço do facet (último é aberto) */
+export const PRICE_BUCKETS = [0, 25, 50, 100, 250, 500];
+
+export function priceBucket(price: number) {
+  let i = PRICE_BUCKETS.length - 1;
+  while (i > 0 && price < PRICE_BUCKETS[i]) i--;
+  return {
+    from: PRICE_BUCKETS[i],
+    to: PRICE_BUCKETS[i + 1] ?? null,
+  };
+}
@@ -0,0 +1,302 @@
+// src/lib/storage.ts
+// Armazenamento de arquivos enviados (imagens, fichas técnicas em PDF).
+// STORAGE_DRIVER=local (default, disco servido em /uploads) | s3 (S3-compatível:
+// AWS, R2, MinIO, Spaces…). As URLs geradas passam no `urlish` dos produtos.
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+
+export type StoredFile = {
+  key: string;
+  url: string;
+  size: number;
+  contentType: string;
+};
+
+export interface StorageDriver {
+  readonly name: "local" | "s3";
+  put(key: string, body: Buffer, contentType: string): Promise<StoredFile>;
+  /** conteúdo do arquivo, ou null se não existir */
+  get(key: string): Promise<Buffer | null>;
+  /** idempotente: apagar algo que não existe não é erro */
+  remove(key: string): Promise<void>;
+  urlFor(key: string): string;
+  /** chave do arquivo se a URL apontar para este storage; senão null */
+  keyFromUrl(url: string): string | null;
+}
+
+/** rota pública dos arquivos locais (ver server.ts) */
+export const LOCAL_UPLOADS_ROUTE = "/uploads";
+
+export function localUploadsDir() {
+  return path.resolve(process.env.UPLOADS_DIR || "uploads");
+}
+
+const SAFE_KEY = /^[a-z0-9][a-z0-9/_.-]*$/i;
+
+function isSafeKey(key: string) {
+  return SAFE_KEY.test(key) && !key.split("/").includes("..");
+}
+
+function stripBase(url: string, base: string): string | null {
+  const prefix = base.replace(/\/+$/, "") + "/";
+  if (!url.startsWith(prefix)) return null;
+  const key = decodeURIComponent(url.slice(prefix.length).split(/[?#]/)[0]);
+  return isSafeKey(key) ? key : null;
+}
+
+/** chave única: <pasta>/<aaaa>/<mm>/<aleatório>.<ext> */
+export function newStorageKey(folder: string, ext: string): string {
+  const now = new Date();
+  const yyyy = now.getUTCFullYear();
+  const mm = String(now.getUTCMonth() + 1).padStart(2, "0");
+  const id = crypto.randomBytes(12).toString("hex");
+  const cleanFolder = folder
+    .split("/")
+    .map((s) => s.replace(/[^a-z0-9_-]/gi, ""))
+    .filter(Boolean)
+    .join("/");
+  return `${cleanFolder}/${yyyy}/${mm}/${id}.${ext.replace(/^\./, "")}`;
+}
+
+/* ========== disco local ========== */
+
+function localDriver(): StorageDriver {
+  const root = localUploadsDir();
+  // UPLOADS_PUBLIC_URL permite URL absoluta (ex.: https://api.listo365.com/uploads)
+  const publicBase = (
+    process.env.UPLOADS_PUBLIC_URL || LOCAL_UPLOADS_ROUTE
+  ).replace(/\/+$/, "");
+
+  const fileFor = (key: string) => {
+    if (!isSafeKey(key)) throw new Error("invalid_storage_key");
+    return path.join(root, ...key.split("/"));
+  };
+
+  const driver: StorageDriver = {
+    name: "local",
+    async put(key, body, contentType) {
+      const file = fileFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+      return { key, url: driver.urlFor(key), size: body.length, contentType };
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(fileFor(key));
+      } catch (e: any) {
+        if (e?.code === "ENOENT") return null;
+        throw e;
+      }
+    },
+    async remove(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+    urlFor(key) {
+      return `${publicBase}/${key}`;
+    },
+    keyFromUrl(url) {
+      return (
+        stripBase(url, publicBase) ?? stripBase(url, LOCAL_UPLOADS_ROUTE)
+      );
+    },
+  };
+  return driver;
+}
+
+/* ========== S3-compatível ========== */
+
+function s3Driver(): StorageDriver {
+  const bucket = process.env.S3_BUCKET || "";
+  if (!bucket) throw new Error("S3_BUCKET not set");
+  const region = process.env.S3_REGION || "us-east-1";
+  const endpoint = process.env.S3_ENDPOINT || undefined;
+  const forcePathStyle = process.env.S3_FORCE_PATH_STYLE === "1";
+  const publicBase = (
+    process.env.S3_PUBLIC_URL ||
+    (endpoint
+      ? `${endpoint.replace(/\/+$/, "")}/${bucket}`
+      : `https://${bucket}.s3.${region}.amazonaws.com`)
+  ).replace(/\/+$/, "");
+
+  // import tardio: o SDK só é carregado quando o driver S3 é usado
+  type S3Sdk = typeof import("@aws-sdk/client-s3");
+  let client: Promise<{ s3: any; sdk: S3Sdk }> | null = null;
+  const getClient = () =>
+    (client ??= import("@aws-sdk/client-s3").then((sdk) => ({
+      sdk,
+      s3: new sdk.S3Client({
+        region,
+        endpoint,
+        forcePathStyle,
+        credentials:
+          process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+            ? {
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+              }
+            : undefined,
+      }),
+    })));
+
+  const driver: StorageDriver = {
+    name: "s3",
+    async put(key, body, contentType) {
+      if (!isSafeKey(key)) throw new Error("invalid_storage_key");
+      const { s3, sdk } = await getClient();
+      await s3.send(
+        new sdk.PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          // chaves são únicas por upload, então podem ser cacheadas para sempre
+          CacheControl: "public, max-age=31536000, immutable",
+        })
+      );
+      return { key, url: driver.urlFor(key), size: body.length, contentType };
+    },
+    async get(key) {
+      const { s3, sdk } = await getClient();
+      try {
+        const out = await s3.send(
+          new sdk.GetObjectCommand({ Bucket: bucket, Key: key })
+        );
+        const bytes = await out.Body?.transformToByteArray();
+        return bytes ? Buffer.from(bytes) : null;
+      } catch (e: any) {
+        if (e?.name === "NoSuchKey" || e?.$metadata?.httpStatusCode === 404)
+          return null;
+        throw e;
+      }
+    },
+    async remove(key) {
+      const { s3, sdk } = await getClient();
+      await s3.send(new sdk.DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+    urlFor(key) {
+      return `${publicBase}/${key}`;
+    },
+    keyFromUrl(url) {
+      return stripBase(url, publicBase);
+    },
+  };
+  return driver;
+}
+
+let cachedStorage: StorageDriver | null = null;
+
+export function getStorage(): StorageDriver {
+  if (cachedStorage) return cachedStorage;
+  const kind = (process.env.STORAGE_DRIVER || "local").trim().toLowerCase();
+  cachedStorage = kind === "s3" ? s3Driver() : localDriver();
+  return cachedStorage;
+}
+
+/** troca o driver (scripts/dev) */
+export function setStorage(s: StorageDriver | null) {
+  cachedStorage = s;
+}
+
+/* ========== validação de arquivos ========== */
+
+export type UploadKind = "image" | "pdf";
+
+const IMAGE_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+};
+
+const MB = 1024 * 1024;
+export const UPLOAD_LIMITS: Record<UploadKind, number> = {
+  image: Number(process.env.UPLOAD_MAX_IMAGE_MB || 8) * MB,
+  pdf: Number(process.env.UPLOAD_MAX_PDF_MB || 20) * MB,
+};
+
+/** tipo real pelo cabeçalho do arquivo — não confia no Content-Type do cliente */
+export function sniffMime(buf: Buffer): string | null {
+  if (buf.length < 12) return null;
+  if (buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff)
+    return "image/jpeg";
+  if (buf.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex")))
+    return "image/png";
+  if (
+    buf.toString("latin1", 0, 4) === "RIFF" &&
+    buf.toString("latin1", 8, 12) === "WEBP"
+  )
+    return "image/webp";
+  if (buf.toString("latin1", 0, 4) === "GIF8") return "image/gif";
+  if (
+    buf.toString("latin1", 4, 8) === "ftyp" &&
+    /^avi[fs]$/.test(buf.toString("latin1", 8, 12))
+  )
+    return "image/avif";
+  if (buf.toString("latin1", 0, 5) === "%PDF-") return "application/pdf";
+  return null;
+}
+
+export class UploadError extends Error {
+  constructor(
+    public code: "UNSUPPORTED_TYPE" | "FILE_TOO_LARGE" | "EMPTY_FILE",
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/** valida tipo/tamanho e devolve content-type + extensão canônicos */
+export function checkUpload(
+  kind: UploadKind,
+  file: { buffer: Buffer; mimetype: string; size: number }
+): { contentType: string; ext: string } {
+  if (!file.size) throw new UploadError("EMPTY_FILE", "File is empty.");
+  if (file.size > UPLOAD_LIMITS[kind])
+    throw new UploadError(
+      "FILE_TOO_LARGE",
+      `File exceeds ${Math.round(UPLOAD_LIMITS[kind] / MB)} MB.`
+    );
+
+  const sniffed = sniffMime(file.buffer);
+  if (kind === "pdf") {
+    if (sniffed !== "application/pdf")
+      throw new UploadError("UNSUPPORTED_TYPE", "Only PDF files are accepted.");
+    return { contentType: "application/pdf", ext: "pdf" };
+  }
+  if (!sniffed || !IMAGE_TYPES[sniffed])
+    throw new UploadError(
+      "UNSUPPORTED_TYPE",
+      "Only JPEG, PNG, WebP, GIF or AVIF images are accepted."
+    );
+  return { contentType: sniffed, ext: IMAGE_TYPES[sniffed] };
+}
+
+/** grava um arquivo validado em <pasta>/… e devolve a URL pública */
+export async function storeUpload(
+  kind: UploadKind,
+  folder: string,
+  file: { buffer: Buffer; mimetype: string; size: number }
+): Promise<StoredFile> {
+  const { contentType, ext } = checkUpload(kind, file);
+  return getStorage().put(newStorageKey(folder, ext), file.buffer, contentType);
+}
+
+/**
+ * Remove o arquivo por trás de uma URL, se for nosso. URLs externas
+ * (coladas pelo admin) são ignoradas. Falhas só geram log.
+ */
+export async function removeStoredUrl(url: string | null | undefined) {
+  if (!url) return false;
+  const storage = getStorage();
+  const key = storage.keyFromUrl(url);
+  if (!key) return false;
+  try {
+    await storage.remove(key);
+    return true;
+  } catch (e: any) {
+    console.warn(`[storage] failed to remove ${key}:`, e?.message || e);
+    return false;
+  }
+}
@@ -21,6 +21,7 @@ type TokenPayload = {
   uid?: string; // compat com tokens antigos
   email?: string;
   role?: "ADMIN" | "USER" | string;
+  scope?: string; // links assinados (cotação, descadastro) — não são login
   iat?: number;
   exp?: number;
 };
@@ -50,6 +51,10 @@ export function requireAuth(
 
   try {
     const decoded = jwt.verify(token, secret) as TokenPayload;
+    // token de link enviado por email assina com o mesmo segredo por
+    // padrão: nunca vale como sessão
+    if (decoded.scope)
+      return res.status(401).json({ error: "Invalid token (scoped link)" });
     const id = decoded.sub ?? decoded.uid;
     if (!id)
       return res.status(401).json({ error: "Invalid token (missing subject)" });
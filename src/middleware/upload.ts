@@ -0,0 +1,54 @@
+// src/middleware/upload.ts
+import type { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { UPLOAD_LIMITS, UploadKind } from "../lib/storage";
+
+/**
+ * multipart/form-data em memória (os arquivos são pequenos e vão direto
+ * para o storage). Erros do multer viram 400/413 em JSON.
+ */
+export function acceptFiles(kind: UploadKind, field: string, maxCount = 1) {
+  return multipartFiles(field, maxCount, UPLOAD_LIMITS[kind]);
+}
+
+/** arquivo de dados (CSV/JSON) lido em memória, sem passar pelo storage */
+export function acceptDataFile(field: string, maxBytes: number) {
+  return multipartFiles(field, 1, maxBytes);
+}
+
+function multipartFiles(field: string, maxCount: number, maxBytes: number) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: maxCount },
+  }).array(field, maxCount);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (err: any) => {
+      if (!err) return next();
+      if (err instanceof multer.MulterError) {
+        if (err.code === "LIMIT_FILE_SIZE")
+          return res.status(413).json({
+            error: "file_too_large",
+            message: `File exceeds ${Math.round(maxBytes / (1024 * 1024))} MB.`,
+          });
+        if (
+          err.code === "LIMIT_FILE_COUNT" ||
+          err.code === "LIMIT_UNEXPECTED_FILE"
+        )
+          return res.status(400).json({
+            error: "too_many_files",
+            message: `Send at most ${maxCount} file(s) in the "${field}" field.`,
+          });
+        return res
+          .status(400)
+          .json({ error: "invalid_upload", message: err.message });
+      }
+      next(err);
+    });
+  };
+}
+
+/** arquivos recebidos pelo acceptFiles */
+export function uploadedFiles(req: Request): Express.Multer.File[] {
+  return Array.isArray(req.files) ? req.files : [];
+}
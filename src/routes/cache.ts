@@ -0,0 +1,27 @@
+// src/routes/cache.ts
+import { Router, Request, Response } from "express";
+import { requireAdmin } from "../middleware/auth";
+import {
+  catalogCacheStats,
+  invalidateCatalog,
+  resetCatalogCacheStats,
+} from "../lib/catalogCache";
+
+export const cache = Router();
+
+// Estatísticas do cache do catálogo (hits/misses, entradas, próxima virada)
+cache.get("/catalog", requireAdmin, (_req: Request, res: Response) => {
+  res.set("Cache-Control", "no-store");
+  res.json(catalogCacheStats());
+});
+
+// Limpeza manual (?resetStats=1 zera os contadores)
+cache.post(
+  "/catalog/clear",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    await invalidateCatalog("manual");
+    if (String(req.query.resetStats || "") === "1") resetCatalogCacheStats();
+    res.json({ ok: true, ...catalogCacheStats() });
+  }
+);
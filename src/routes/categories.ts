@@ -3,6 +3,13 @@ import { Router } from "express";
 import { prisma } from "../lib/prisma";
 import { z } from "zod";
 import { requireAdmin } from "../middleware/auth";
+import type { Prisma } from "@prisma/client";
+import { publicCatalogCache } from "../lib/catalogCache";
+import {
+  isAdminFromReq,
+  selectForReturn,
+  serializeProducts,
+} from "../lib/catalog";
 
 export const categories = Router();
 
@@ -13,16 +20,193 @@ function slugify(s: string) {
     .replace(/(^-|-$)/g, "");
 }
 
+/** ordem pública: manual (sortOrder) e, no empate, alfabética */
+const SIBLING_ORDER = [
+  { sortOrder: "asc" as const },
+  { name: "asc" as const },
+];
+
+/** slug livre: "limpeza", "limpeza-2", "limpeza-3"… */
+async function uniqueSlug(name: string, excludeId?: string) {
+  const base = slugify(name) || "category";
+  const taken = await prisma.category.findMany({
+    where: {
+      slug: { startsWith: base },
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+    select: { slug: true },
+  });
+  const used = new Set(taken.map((t) => t.slug));
+  if (!used.has(base)) return base;
+  for (let i = 2; ; i++) {
+    if (!used.has(`${base}-${i}`)) return `${base}-${i}`;
+  }
+}
+
+/** true se `candidateId` é `ancestorId` ou está abaixo dele */
+async function isWithinSubtree(candidateId: string, ancestorId: string) {
+  const seen = new Set<string>();
+  let cur: string | null = candidateId;
+  while (cur && !seen.has(cur)) {
+    if (cur === ancestorId) return true;
+    seen.add(cur);
+    const row: { parentId: string | null } | null =
+      await prisma.category.findUnique({
+        where: { id: cur },
+        select: { parentId: true },
+      });
+    cur = row?.parentId ?? null;
+  }
+  return false;
+}
+
+/** próxima posição no fim da lista de irmãos */
+async function nextSortOrder(parentId: string | null) {
+  const last = await prisma.category.aggregate({
+    where: { parentId },
+    _max: { sortOrder: true },
+  });
+  return (last._max.sortOrder ?? 0) + 10;
+}
+
 // Lista pais com filhos
-categories.get("/", async (_req, res) => {
+categories.get("/", publicCatalogCache, async (_req, res) => {
   const roots = await prisma.category.findMany({
     where: { parentId: null },
-    orderBy: { name: "asc" },
-    include: { children: { orderBy: { name: "asc" } } },
+    orderBy: SIBLING_ORDER,
+    include: { children: { orderBy: SIBLING_ORDER } },
   });
   res.json(roots);
 });
 
+/* ========== árvore completa ========== */
+
+type CategoryRow = {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  sortOrder: number;
+};
+
+type TreeNode = CategoryRow & {
+  /** produtos ativos ligados diretamente à categoria */
+  productCount: number;
+  /** produtos ativos distintos na categoria + descendentes */
+  totalProductCount: number;
+  children: TreeNode[];
+};
+
+/** carrega todas as categorias (já na ordem pública) e indexa por pai */
+async function loadCategoryIndex() {
+  const rows: CategoryRow[] = await prisma.category.findMany({
+    orderBy: SIBLING_ORDER,
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      parentId: true,
+      sortOrder: true,
+    },
+  });
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const childrenOf = new Map<string | null, CategoryRow[]>();
+  for (const r of rows) {
+    // pai inexistente (dado órfão) vira raiz
+    const key = r.parentId && byId.has(r.parentId) ? r.parentId : null;
+    const list = childrenOf.get(key) ?? [];
+    list.push(r);
+    childrenOf.set(key, list);
+  }
+  return { rows, byId, childrenOf };
+}
+
+type CategoryIndex = Awaited<ReturnType<typeof loadCategoryIndex>>;
+
+/** ids da categoria e de todos os descendentes */
+function subtreeIds(index: CategoryIndex, rootId: string): string[] {
+  const out: string[] = [];
+  const stack = [rootId];
+  const seen = new Set<string>();
+  while (stack.length) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    out.push(id);
+    for (const c of index.childrenOf.get(id) ?? []) stack.push(c.id);
+  }
+  return out;
+}
+
+/** raiz -> … -> categoria */
+function breadcrumb(index: CategoryIndex, id: string) {
+  const path: Array<Pick<CategoryRow, "id" | "name" | "slug">> = [];
+  const seen = new Set<string>();
+  let cur = index.byId.get(id);
+  while (cur && !seen.has(cur.id)) {
+    seen.add(cur.id);
+    path.unshift({ id: cur.id, name: cur.name, slug: cur.slug });
+    cur = cur.parentId ? index.byId.get(cur.parentId) : undefined;
+  }
+  return path;
+}
+
+/** produtos ativos por categoria (conjunto, para contar sem duplicar) */
+async function activeProductsByCategory() {
+  const links = await prisma.productCategory.findMany({
+    where: { product: { active: true } },
+    select: { productId: true, categoryId: true },
+  });
+  const map = new Map<string, Set<string>>();
+  for (const l of links) {
+    const set = map.get(l.categoryId) ?? new Set<string>();
+    set.add(l.productId);
+    map.set(l.categoryId, set);
+  }
+  return map;
+}
+
+// Árvore completa (qualquer profundidade) com contagem de produtos ativos
+categories.get("/tree", publicCatalogCache, async (_req, res) => {
+  const [index, productsByCat] = await Promise.all([
+    loadCategoryIndex(),
+    activeProductsByCategory(),
+  ]);
+
+  const build = (
+    row: CategoryRow,
+    seen: Set<string>
+  ): { node: TreeNode; products: Set<string> } => {
+    seen.add(row.id);
+    const own = productsByCat.get(row.id) ?? new Set<string>();
+    const all = new Set(own);
+    const children: TreeNode[] = [];
+    for (const c of index.childrenOf.get(row.id) ?? []) {
+      if (seen.has(c.id)) continue; // proteção contra ciclo no banco
+      const sub = build(c, seen);
+      children.push(sub.node);
+      sub.products.forEach((p) => all.add(p));
+    }
+    return {
+      node: {
+        ...row,
+        productCount: own.size,
+        totalProductCount: all.size,
+        children,
+      },
+      products: all,
+    };
+  };
+
+  const seen = new Set<string>();
+  const tree = (index.childrenOf.get(null) ?? []).map(
+    (r) => build(r, seen).node
+  );
+
+  res.set("Cache-Control", "public, max-age=60, stale-while-revalidate=120");
+  res.json(tree);
+});
+
 // Seed da árvore “default”
 categories.post("/seed", requireAdmin, async (_req, res) => {
   const tree: Array<{ name: string; children?: string[] }> = [
@@ -43,16 +227,25 @@ categories.post("/seed", requireAdmin, async (_req, res) => {
     { name: "Cleaners/Degreasers", children: ["Super Heavy Duty Concentrate"] },
   ];
 
-  for (const parent of tree) {
+  for (const [i, parent] of tree.entries()) {
     const p = await prisma.category.upsert({
       where: { slug: slugify(parent.name) },
-      create: { name: parent.name, slug: slugify(parent.name) },
+      create: {
+        name: parent.name,
+        slug: slugify(parent.name),
+        sortOrder: (i + 1) * 10,
+      },
       update: {},
     });
-    for (const childName of parent.children ?? []) {
+    for (const [j, childName] of (parent.children ?? []).entries()) {
       await prisma.category.upsert({
         where: { slug: slugify(childName) },
-        create: { name: childName, slug: slugify(childName), parentId: p.id },
+        create: {
+          name: childName,
+          slug: slugify(childName),
+          parentId: p.id,
+          sortOrder: (j + 1) * 10,
+        },
         update: { parentId: p.id },
       });
     }
@@ -62,16 +255,321 @@ categories.post("/seed", requireAdmin, async (_req, res) => {
 
 // Criar categoria (parent ou sub)
 categories.post("/", requireAdmin, async (req, res) => {
-  const body = z
-    .object({ name: z.string().min(2), parentId: z.string().optional() })
-    .parse(req.body);
-  const created = await prisma.category.create({
-    data: {
-      name: body.name,
-      slug: slugify(body.name),
-      parentId: body.parentId || null,
+  const parsed = z
+    .object({
+      name: z.string().min(2),
+      parentId: z.string().optional(),
+      sortOrder: z.coerce.number().int().optional(),
+    })
+    .safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_body", issues: parsed.error.issues });
+  const body = parsed.data;
+  const parentId = body.parentId || null;
+  if (
+    parentId &&
+    !(await prisma.category.findUnique({ where: { id: parentId } }))
+  )
+    return res.status(404).json({ error: "parent_not_found" });
+
+  try {
+    const created = await prisma.category.create({
+      data: {
+        name: body.name,
+        slug: await uniqueSlug(body.name),
+        parentId,
+        sortOrder: body.sortOrder ?? (await nextSortOrder(parentId)),
+      },
+      include: { children: true, parent: true },
+    });
+    res.status(201).json(created);
+  } catch (e: any) {
+    if (e?.code === "P2002")
+      return res.status(409).json({ error: "slug_conflict" });
+    throw e;
+  }
+});
+
+// Reordenar irmãos: { parentId, ids } -> sortOrder 10, 20, 30…
+categories.patch("/reorder", requireAdmin, async (req, res) => {
+  const parsed = z
+    .object({
+      parentId: z.string().nullable().default(null),
+      ids: z.array(z.string()).min(1),
+    })
+    .safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_body", issues: parsed.error.issues });
+  const { parentId, ids } = parsed.data;
+
+  const siblings = await prisma.category.findMany({
+    where: { id: { in: ids }, parentId },
+    select: { id: true },
+  });
+  if (siblings.length !== new Set(ids).size)
+    return res.status(400).json({
+      error: "not_siblings",
+      message: "All ids must exist and share the given parentId.",
+    });
+
+  await prisma.$transaction(
+    ids.map((id, i) =>
+      prisma.category.update({
+        where: { id },
+        data: { sortOrder: (i + 1) * 10 },
+      })
+    )
+  );
+  const rows = await prisma.category.findMany({
+    where: { parentId },
+    orderBy: SIBLING_ORDER,
+  });
+  res.json(rows);
+});
+
+// Renomear / mover / ordenar
+categories.patch("/:id", requireAdmin, async (req, res) => {
+  const parsed = z
+    .object({
+      name: z.string().min(2).optional(),
+      parentId: z.string().nullable().optional(), // null = vira raiz
+      sortOrder: z.coerce.number().int().optional(),
+    })
+    .safeParse(req.body);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_body", issues: parsed.error.issues });
+  const body = parsed.data;
+
+  const current = await prisma.category.findUnique({
+    where: { id: req.params.id },
+  });
+  if (!current) return res.status(404).json({ error: "not_found" });
+
+  const data: Prisma.CategoryUncheckedUpdateInput = {};
+
+  if (body.name !== undefined && body.name !== current.name) {
+    data.name = body.name;
+    data.slug = await uniqueSlug(body.name, current.id);
+  }
+
+  const moving =
+    body.parentId !== undefined && body.parentId !== current.parentId;
+  if (moving) {
+    if (body.parentId) {
+      const parent = await prisma.category.findUnique({
+        where: { id: body.parentId },
+        select: { id: true },
+      });
+      if (!parent) return res.status(404).json({ error: "parent_not_found" });
+      if (await isWithinSubtree(body.parentId, current.id))
+        return res.status(409).json({
+          error: "category_cycle",
+          message:
+            "A category cannot be moved under itself or its descendants.",
+        });
+    }
+    data.parentId = body.parentId ?? null;
+  }
+
+  if (body.sortOrder !== undefined) data.sortOrder = body.sortOrder;
+  else if (moving) data.sortOrder = await nextSortOrder(body.parentId ?? null);
+
+  try {
+    const updated = await prisma.category.update({
+      where: { id: current.id },
+      data,
+      include: { parent: true, children: { orderBy: SIBLING_ORDER } },
+    });
+    res.json(updated);
+  } catch (e: any) {
+    if (e?.code === "P2002")
+      return res.status(409).json({ error: "slug_conflict" });
+    throw e;
+  }
+});
+
+/**
+ * Excluir. Produtos e subcategorias vão, por padrão, para a categoria-pai;
+ * `moveProductsTo` / `moveChildrenTo` escolhem outro destino (null =
+ * desvincular produtos / promover filhos a raiz).
+ */
+categories.delete("/:id", requireAdmin, async (req, res) => {
+  const parsed = z
+    .object({
+      moveProductsTo: z.string().nullable().optional(),
+      moveChildrenTo: z.string().nullable().optional(),
+    })
+    .safeParse(req.body ?? {});
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_body", issues: parsed.error.issues });
+
+  const current = await prisma.category.findUnique({
+    where: { id: req.params.id },
+    include: {
+      products: { select: { productId: true, isPrimary: true } },
+      children: { select: { id: true }, orderBy: SIBLING_ORDER },
+    },
+  });
+  if (!current) return res.status(404).json({ error: "not_found" });
+
+  const productsTo =
+    parsed.data.moveProductsTo === undefined
+      ? current.parentId
+      : parsed.data.moveProductsTo;
+  const childrenTo =
+    parsed.data.moveChildrenTo === undefined
+      ? current.parentId
+      : parsed.data.moveChildrenTo;
+
+  if (productsTo === current.id || childrenTo === current.id)
+    return res.status(400).json({ error: "invalid_target" });
+  for (const target of [productsTo, childrenTo]) {
+    if (
+      target &&
+      !(await prisma.category.findUnique({ where: { id: target } }))
+    )
+      return res.status(404).json({ error: "target_not_found", id: target });
+  }
+  // filhos não podem ir para dentro da própria subárvore
+  if (childrenTo && (await isWithinSubtree(childrenTo, current.id)))
+    return res.status(409).json({ error: "category_cycle" });
+
+  const productIds = current.products.map((p) => p.productId);
+  const childIds = current.children.map((c) => c.id);
+  const base = childIds.length ? await nextSortOrder(childrenTo) : 0;
+
+  const lostPrimary = current.products
+    .filter((p) => p.isPrimary)
+    .map((p) => p.productId);
+
+  await prisma.$transaction(async (tx) => {
+    if (productsTo && productIds.length)
+      await tx.productCategory.createMany({
+        data: current.products.map(({ productId, isPrimary }) => ({
+          productId,
+          categoryId: productsTo,
+          isPrimary,
+        })),
+        skipDuplicates: true,
+      });
+    for (const [i, id] of childIds.entries())
+      await tx.category.update({
+        where: { id },
+        data: { parentId: childrenTo, sortOrder: base + i * 10 },
+      });
+    await tx.category.delete({ where: { id: current.id } });
+
+    // quem tinha esta categoria como primária e ficou sem nenhuma: o
+    // destino (se o produto já estava lá) ou a primeira em ordem alfabética
+    for (const productId of lostPrimary) {
+      const links = await tx.productCategory.findMany({
+        where: { productId },
+        select: { categoryId: true, isPrimary: true },
+        orderBy: { category: { name: "asc" } },
+      });
+      if (!links.length || links.some((l) => l.isPrimary)) continue;
+      const next = links.find((l) => l.categoryId === productsTo) ?? links[0];
+      await tx.productCategory.update({
+        where: {
+          productId_categoryId: { productId, categoryId: next.categoryId },
+        },
+        data: { isPrimary: true },
+      });
+    }
+  });
+
+  res.json({
+    ok: true,
+    deleted: true,
+    products: { count: productIds.length, movedTo: productsTo },
+    children: { count: childIds.length, movedTo: childrenTo },
+  });
+});
+
+/* ========== página da categoria ========== */
+
+const PRODUCT_ORDER = {
+  name_asc: { name: "asc" as const },
+  name_desc: { name: "desc" as const },
+  price_asc: { price: "asc" as const },
+  price_desc: { price: "desc" as const },
+  sortOrder: { sortOrder: "asc" as const },
+} as const;
+
+// GET /categories/:slug?page&pageSize&sort — inclui produtos das subcategorias
+categories.get("/:slug", publicCatalogCache, async (req, res) => {
+  const parsed = z
+    .object({
+      page: z.coerce.number().int().min(1).default(1),
+      pageSize: z.coerce.number().int().min(1).max(100).default(24),
+      sort: z
+        .enum(Object.keys(PRODUCT_ORDER) as [keyof typeof PRODUCT_ORDER])
+        .default("sortOrder"),
+      all: z.string().optional(),
+    })
+    .safeParse(req.query);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_query", issues: parsed.error.issues });
+  const { page, pageSize, sort } = parsed.data;
+  const isAdmin = parsed.data.all === "1" && isAdminFromReq(req);
+
+  const index = await loadCategoryIndex();
+  const category = index.rows.find((r) => r.slug === req.params.slug);
+  if (!category) return res.status(404).json({ error: "not_found" });
+
+  const ids = subtreeIds(index, category.id);
+  const where: Prisma.ProductWhereInput = {
+    categories: { some: { categoryId: { in: ids } } },
+    ...(isAdmin ? {} : { active: true }),
+  };
+
+  const [total, list, productsByCat] = await Promise.all([
+    prisma.product.count({ where }),
+    prisma.product.findMany({
+      where,
+      orderBy: [PRODUCT_ORDER[sort], { createdAt: "desc" as const }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      select: selectForReturn(),
+    }),
+    activeProductsByCategory(),
+  ]);
+
+  const countIn = (rootId: string) => {
+    const all = new Set<string>();
+    for (const id of subtreeIds(index, rootId))
+      productsByCat.get(id)?.forEach((p) => all.add(p));
+    return all.size;
+  };
+
+  res.set(
+    "Cache-Control",
+    isAdmin ? "no-store" : "public, max-age=60, stale-while-revalidate=120"
+  );
+  res.json({
+    category: {
+      ...category,
+      children: (index.childrenOf.get(category.id) ?? []).map((c) => ({
+        ...c,
+        totalProductCount: countIn(c.id),
+      })),
+    },
+    breadcrumb: breadcrumb(index, category.id),
+    products: {
+      total,
+      page,
+      pageSize,
+      rows: await serializeProducts(list, isAdmin),
     },
-    include: { children: true, parent: true },
   });
-  res.status(201).json(created);
 });
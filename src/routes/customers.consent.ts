@@ -0,0 +1,122 @@
+// src/routes/customers.consent.ts
+// Consentimento de marketing: descadastro público por link assinado e o
+// histórico de concessões/retiradas (ADMIN).
+// Montado em /customers ANTES do router principal (GET /:id).
+import { Router, Request, Response } from "express";
+import { prisma } from "../lib/prisma";
+import { requireAdmin } from "../middleware/auth";
+import { htmlEscape } from "../lib/mailer";
+import {
+  recordConsent,
+  unsubscribeUrl,
+  verifyUnsubscribeToken,
+} from "../lib/consent";
+
+export const customerConsent = Router();
+
+const BRAND = process.env.COMPANY_NAME || "Listo365";
+
+/** cliente do token; se ele foi absorvido num merge, o que ficou */
+async function resolveCustomer(id: string) {
+  const own = await prisma.customer.findUnique({
+    where: { id },
+    select: { id: true, email: true, marketingOptIn: true },
+  });
+  if (own) return own;
+  const merged = await prisma.customerMerge.findFirst({
+    where: { sourceId: id },
+    orderBy: { createdAt: "desc" },
+    select: { targetId: true },
+  });
+  if (!merged) return null;
+  return prisma.customer.findUnique({
+    where: { id: merged.targetId },
+    select: { id: true, email: true, marketingOptIn: true },
+  });
+}
+
+/** retira o consentimento; repetir o link não gera eventos novos */
+async function unsubscribe(req: Request) {
+  const token = String(req.query.token || req.body?.token || "");
+  const id = token ? verifyUnsubscribeToken(token) : null;
+  if (!id) return null;
+  const customer = await resolveCustomer(id);
+  if (!customer) return null;
+  if (customer.marketingOptIn)
+    await recordConsent(customer.id, "withdraw", {
+      source: "unsubscribe",
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+    });
+  return customer;
+}
+
+function page(title: string, body: string) {
+  return `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${htmlEscape(
+    title
+  )}</title></head><body style="font-family:system-ui,sans-serif;max-width:480px;margin:64px auto;padding:0 16px;color:#222"><h1 style="font-size:20px">${htmlEscape(
+    title
+  )}</h1><p>${body}</p></body></html>`;
+}
+
+// GET /customers/unsubscribe?token= — link dos emails (público)
+customerConsent.get("/unsubscribe", async (req: Request, res: Response) => {
+  const customer = await unsubscribe(req);
+  res.set("Cache-Control", "no-store");
+  if (!customer)
+    return res
+      .status(400)
+      .type("html")
+      .send(
+        page(
+          "Invalid link",
+          "This unsubscribe link is invalid. Reply to any of our emails and we will remove you manually."
+        )
+      );
+  res
+    .type("html")
+    .send(
+      page(
+        "You are unsubscribed",
+        `${htmlEscape(customer.email)} will no longer receive marketing emails from ${htmlEscape(
+          BRAND
+        )}. Order and quote emails are not affected.`
+      )
+    );
+});
+
+// POST /customers/unsubscribe?token= — one-click (List-Unsubscribe-Post)
+customerConsent.post("/unsubscribe", async (req: Request, res: Response) => {
+  const customer = await unsubscribe(req);
+  res.set("Cache-Control", "no-store");
+  if (!customer) return res.status(400).json({ error: "invalid_token" });
+  res.json({ ok: true });
+});
+
+// GET /customers/:id/consent — estado atual + histórico (ADMIN)
+customerConsent.get(
+  "/:id/consent",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const c = await prisma.customer.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        marketingOptIn: true,
+        consentEvents: {
+          orderBy: { createdAt: "desc" },
+          include: {
+            actor: { select: { id: true, email: true, name: true } },
+          },
+        },
+      },
+    });
+    if (!c) return res.status(404).json({ error: "not_found" });
+    res.set("Cache-Control", "no-store");
+    res.json({
+      marketingOptIn: c.marketingOptIn,
+      unsubscribeUrl: unsubscribeUrl(c.id),
+      events: c.consentEvents,
+    });
+  }
+);
@@ -0,0 +1,213 @@
+// src/routes/customers.segments.ts
+// Segmentos salvos de clientes (ADMIN): um nome + o mesmo filtro do
+// GET /customers, consultável e exportável em CSV.
+// Montado em /customers ANTES do router principal (GET /:id).
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import { requireAdmin } from "../middleware/auth";
+import { csvLine } from "../lib/csv";
+import {
+  CustomerFilter,
+  CustomerSortShape,
+  customerPage,
+} from "../lib/customerMetrics";
+
+export const customerSegments = Router();
+
+const EXPORT_BATCH = 500;
+
+const SegmentBody = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  filter: CustomerFilter.strict(),
+});
+
+function serializeSegment(s: any) {
+  return { ...s, filter: CustomerFilter.parse(s.filter ?? {}) };
+}
+
+// GET /customers/segments
+customerSegments.get(
+  "/segments",
+  requireAdmin,
+  async (_req: Request, res: Response) => {
+    const rows = await prisma.customerSegment.findMany({
+      orderBy: { name: "asc" },
+    });
+    res.set("Cache-Control", "no-store");
+    res.json(rows.map(serializeSegment));
+  }
+);
+
+// POST /customers/segments { name, description?, filter }
+customerSegments.post(
+  "/segments",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = SegmentBody.safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_body", issues: parsed.error.issues });
+
+    try {
+      const s = await prisma.customerSegment.create({ data: parsed.data });
+      res.set("Cache-Control", "no-store");
+      res.status(201).json(serializeSegment(s));
+    } catch (e: any) {
+      if (e?.code === "P2002")
+        return res.status(409).json({ error: "segment_name_taken" });
+      throw e;
+    }
+  }
+);
+
+// PATCH /customers/segments/:segmentId
+customerSegments.patch(
+  "/segments/:segmentId",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = SegmentBody.partial()
+      .strict()
+      .safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_body", issues: parsed.error.issues });
+
+    try {
+      const s = await prisma.customerSegment.update({
+        where: { id: req.params.segmentId },
+        data: parsed.data,
+      });
+      res.set("Cache-Control", "no-store");
+      res.json(serializeSegment(s));
+    } catch (e: any) {
+      if (e?.code === "P2025")
+        return res.status(404).json({ error: "segment_not_found" });
+      if (e?.code === "P2002")
+        return res.status(409).json({ error: "segment_name_taken" });
+      throw e;
+    }
+  }
+);
+
+// DELETE /customers/segments/:segmentId
+customerSegments.delete(
+  "/segments/:segmentId",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const { count } = await prisma.customerSegment.deleteMany({
+      where: { id: req.params.segmentId },
+    });
+    if (!count) return res.status(404).json({ error: "segment_not_found" });
+    res.json({ ok: true });
+  }
+);
+
+async function loadSegment(id: string) {
+  const s = await prisma.customerSegment.findUnique({ where: { id } });
+  return s ? serializeSegment(s) : null;
+}
+
+// GET /customers/segments/:segmentId/customers?page&pageSize&sort&dir
+customerSegments.get(
+  "/segments/:segmentId/customers",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const q = CustomerSortShape.extend({
+      page: z.coerce.number().int().positive().default(1),
+      pageSize: z.coerce.number().int().min(1).max(100).default(20),
+    }).safeParse(req.query);
+    if (!q.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_query", issues: q.error.issues });
+
+    const segment = await loadSegment(req.params.segmentId);
+    if (!segment) return res.status(404).json({ error: "segment_not_found" });
+
+    const { total, rows } = await customerPage({
+      filter: segment.filter,
+      ...q.data,
+    });
+    res.set("Cache-Control", "no-store");
+    res.json({ segment, total, ...q.data, rows });
+  }
+);
+
+const CSV_HEADERS = [
+  "Name",
+  "Email",
+  "Phone",
+  "Company",
+  "Tags",
+  "MarketingOptIn",
+  "Orders",
+  "CompletedRevenue",
+  "AvgOrderValue",
+  "FirstOrderAt",
+  "LastOrderAt",
+  "ReorderIntervalDays",
+  "CreatedAt",
+];
+
+const isoOrEmpty = (d: Date | null) => (d ? new Date(d).toISOString() : "");
+
+// GET /customers/segments/:segmentId/export.csv?sort&dir
+customerSegments.get(
+  "/segments/:segmentId/export.csv",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const q = CustomerSortShape.safeParse(req.query);
+    if (!q.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_query", issues: q.error.issues });
+
+    const segment = await loadSegment(req.params.segmentId);
+    if (!segment) return res.status(404).json({ error: "segment_not_found" });
+
+    let csv = csvLine(CSV_HEADERS);
+    for (let page = 1; ; page++) {
+      const { rows } = await customerPage({
+        filter: segment.filter,
+        ...q.data,
+        page,
+        pageSize: EXPORT_BATCH,
+      });
+      for (const c of rows) {
+        const m = c.metrics;
+        csv += csvLine([
+          c.name,
+          c.email,
+          c.phone,
+          c.company,
+          c.tags.join("|"),
+          c.marketingOptIn,
+          m.orderCount,
+          m.completedRevenue.toFixed(2),
+          m.avgOrderValue?.toFixed(2) ?? "",
+          isoOrEmpty(m.firstOrderAt),
+          isoOrEmpty(m.lastOrderAt),
+          m.reorderIntervalDays ?? "",
+          isoOrEmpty(c.createdAt),
+        ]);
+      }
+      if (rows.length < EXPORT_BATCH) break;
+    }
+
+    const slug = segment.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="segment-${slug || segment.id}.csv"`
+    );
+    res.setHeader("Cache-Control", "no-store");
+    res.send(csv);
+  }
+);
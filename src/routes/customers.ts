@@ -1,8 +1,26 @@
 // src/routes/customers.ts
 import { Router, Request, Response } from "express";
 import { prisma } from "../lib/prisma";
-import { requireAdmin } from "../middleware/auth";
+import { requireAdmin, AuthedRequest } from "../middleware/auth";
 import { z } from "zod";
+import {
+  CustomerMergeError,
+  mergeCustomers,
+  normalizeTags,
+} from "../lib/customers";
+import {
+  CustomerFilter,
+  CustomerSortShape,
+  customerMetrics,
+  customerPage,
+} from "../lib/customerMetrics";
+import { recordConsent } from "../lib/consent";
+import { csvLine } from "../lib/csv";
+import {
+  dedupeAddresses,
+  findOrCreateAddress,
+  normalizeAddress,
+} from "../lib/addresses";
 
 export const customers = Router();
 
@@ -10,39 +28,113 @@ customers.get("/_ping", (_req, res) =>
   res.json({ ok: true, scope: "customers-router" })
 );
 
-// GET /customers — lista paginada + busca
+// GET /customers — lista paginada + busca, filtros e ordenação por métricas
 customers.get("/", requireAdmin, async (req: Request, res: Response) => {
-  const Query = z.object({
-    q: z.string().optional(),
+  const Query = CustomerFilter.merge(CustomerSortShape).extend({
     page: z.coerce.number().int().positive().default(1),
     pageSize: z.coerce.number().int().min(1).max(100).default(20),
   });
-  const { q, page, pageSize } = Query.parse(req.query);
-
-  const where: any = {};
-  if (q && q.trim()) {
-    const term = q.trim();
-    where.OR = [
-      { name: { contains: term, mode: "insensitive" } },
-      { email: { contains: term, mode: "insensitive" } },
-      { phone: { contains: term, mode: "insensitive" } },
-    ];
-  }
+  const parsed = Query.safeParse(req.query);
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_query", issues: parsed.error.issues });
+  const { page, pageSize, sort, dir, ...filter } = parsed.data;
 
-  const [total, rows] = await prisma.$transaction([
-    prisma.customer.count({ where }),
-    prisma.customer.findMany({
-      where,
+  const { total, rows } = await customerPage({
+    filter,
+    sort,
+    dir,
+    page,
+    pageSize,
+  });
+  res.set("Cache-Control", "no-store");
+  res.json({ total, page, pageSize, sort, dir, rows });
+});
+
+/**
+ * GET /customers/export/csv — contatos com consentimento vigente, com a
+ * data/origem da última concessão (vazio para opt-ins anteriores ao histórico)
+ */
+customers.get(
+  "/export/csv",
+  requireAdmin,
+  async (_req: Request, res: Response) => {
+    const list = await prisma.customer.findMany({
+      where: { marketingOptIn: true },
       orderBy: { createdAt: "desc" },
-      skip: (page - 1) * pageSize,
-      take: pageSize,
-      include: { addresses: { orderBy: { createdAt: "desc" } } },
-    }),
-  ]);
+      select: {
+        name: true,
+        email: true,
+        phone: true,
+        createdAt: true,
+        consentEvents: {
+          where: { action: "grant" },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          select: { createdAt: true, source: true },
+        },
+      },
+    });
+
+    let csv = csvLine([
+      "Name",
+      "Email",
+      "Phone",
+      "ConsentedAt",
+      "ConsentSource",
+      "CreatedAt",
+    ]);
+    for (const c of list) {
+      const [grant] = c.consentEvents;
+      csv += csvLine([
+        c.name,
+        c.email,
+        c.phone,
+        grant ? grant.createdAt.toISOString() : "",
+        grant?.source,
+        c.createdAt.toISOString(),
+      ]);
+    }
 
-  res.json({ total, page, pageSize, rows });
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      'attachment; filename="contacts-optin.csv"'
+    );
+    res.setHeader("Cache-Control", "no-store");
+    res.send(csv);
+  }
+);
+
+// GET /customers/tags — tags em uso (com contagem), para filtros/autocomplete
+customers.get("/tags", requireAdmin, async (_req: Request, res: Response) => {
+  const rows = await prisma.$queryRaw<Array<{ tag: string; count: number }>>`
+    SELECT t AS tag, count(*)::int AS count
+      FROM "Contact", unnest("tags") AS t
+     GROUP BY t
+     ORDER BY count DESC, t ASC
+  `;
+  res.set("Cache-Control", "no-store");
+  res.json(rows);
 });
 
+/**
+ * POST /customers/maintenance/dedupe-addresses[?dryRun=1]
+ * Manutenção única: normaliza e junta endereços repetidos de cada cliente,
+ * repontando os pedidos para o endereço que fica.
+ */
+customers.post(
+  "/maintenance/dedupe-addresses",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const dryRun = ["1", "true"].includes(String(req.query.dryRun));
+    const stats = await dedupeAddresses({ dryRun });
+    res.set("Cache-Control", "no-store");
+    res.json({ dryRun, ...stats });
+  }
+);
+
 // GET /customers/:id — detalhe + últimos pedidos
 customers.get("/:id", requireAdmin, async (req: Request, res: Response) => {
   const id = req.params.id;
@@ -67,36 +159,297 @@ customers.get("/:id", requireAdmin, async (req: Request, res: Response) => {
   });
 
   if (!c) return res.status(404).json({ error: "not_found" });
-  res.json(c);
+  const metrics = await customerMetrics(id);
+  res.set("Cache-Control", "no-store");
+  res.json({ ...c, metrics });
 });
 
-// GET /customers/export/csv — contatos opt-in
-customers.get(
-  "/export/csv",
+/** =========================
+ *  Edição (ADMIN)
+ *  ========================= */
+const optionalText = z
+  .string()
+  .trim()
+  .max(500)
+  .nullable()
+  .optional()
+  .transform((v) => (v === undefined ? undefined : v || null));
+
+const CustomerPatch = z
+  .object({
+    name: z.string().trim().min(2).max(200),
+    email: z
+      .string()
+      .trim()
+      .email()
+      .transform((v) => v.toLowerCase()),
+    phone: optionalText,
+    company: optionalText,
+    marketingOptIn: z.boolean(),
+    note: z.string().max(5000).nullable(),
+    tags: z.array(z.string().max(50)).max(50).transform(normalizeTags),
+    defaultAddressId: z.string().min(1).nullable(),
+  })
+  .partial()
+  .strict();
+
+// PATCH /customers/:id
+customers.patch("/:id", requireAdmin, async (req: Request, res: Response) => {
+  const parsed = CustomerPatch.safeParse(req.body ?? {});
+  if (!parsed.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_body", issues: parsed.error.issues });
+
+  const { marketingOptIn, ...data } = parsed.data;
+  const { defaultAddressId } = data;
+  if (defaultAddressId) {
+    const own = await prisma.address.findFirst({
+      where: { id: defaultAddressId, customerId: req.params.id },
+      select: { id: true },
+    });
+    if (!own)
+      return res.status(400).json({
+        error: "invalid_default_address",
+        message:
+          "The default address must be one of this customer's addresses.",
+      });
+  }
+
+  try {
+    const c = await prisma.$transaction(async (tx) => {
+      const before = await tx.customer.update({
+        where: { id: req.params.id },
+        data,
+        select: { marketingOptIn: true },
+      });
+      // opt-in mexido pelo admin entra no histórico de consentimento
+      if (
+        marketingOptIn !== undefined &&
+        marketingOptIn !== before.marketingOptIn
+      )
+        await recordConsent(
+          req.params.id,
+          marketingOptIn ? "grant" : "withdraw",
+          {
+            source: "admin",
+            ip: req.ip,
+            actor: (req as AuthedRequest).user,
+          },
+          tx
+        );
+      return tx.customer.findUniqueOrThrow({
+        where: { id: req.params.id },
+        include: { addresses: { orderBy: { createdAt: "desc" } } },
+      });
+    });
+    res.set("Cache-Control", "no-store");
+    res.json(c);
+  } catch (e: any) {
+    if (e?.code === "P2025")
+      return res.status(404).json({ error: "not_found" });
+    if (e?.code === "P2002")
+      return res.status(409).json({
+        error: "email_taken",
+        message:
+          "Another customer already uses this email. Merge them instead.",
+      });
+    throw e;
+  }
+});
+
+// POST /customers/:id/tags { add?: string[], remove?: string[] }
+customers.post(
+  "/:id/tags",
   requireAdmin,
-  async (_req: Request, res: Response) => {
-    const list = await prisma.customer.findMany({
-      where: { marketingOptIn: true },
-      orderBy: { createdAt: "desc" },
-      select: { name: true, email: true, phone: true, createdAt: true },
+  async (req: Request, res: Response) => {
+    const parsed = z
+      .object({
+        add: z.array(z.string().max(50)).max(50).default([]),
+        remove: z.array(z.string().max(50)).max(50).default([]),
+      })
+      .safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_body", issues: parsed.error.issues });
+
+    const c = await prisma.customer.findUnique({
+      where: { id: req.params.id },
+      select: { tags: true },
     });
+    if (!c) return res.status(404).json({ error: "not_found" });
 
-    const lines: string[] = [];
-    lines.push(["Name", "Email", "Phone", "CreatedAt"].join(","));
-    for (const c of list) {
-      const name = JSON.stringify(c.name ?? "");
-      const email = JSON.stringify(c.email ?? "");
-      const phone = JSON.stringify(c.phone ?? "");
-      const created = JSON.stringify(new Date(c.createdAt).toISOString());
-      lines.push([name, email, phone, created].join(","));
+    const remove = new Set(normalizeTags(parsed.data.remove));
+    const tags = normalizeTags([...c.tags, ...parsed.data.add]).filter(
+      (t) => !remove.has(t)
+    );
+    await prisma.customer.update({
+      where: { id: req.params.id },
+      data: { tags },
+    });
+    res.set("Cache-Control", "no-store");
+    res.json({ tags });
+  }
+);
+
+/** =========================
+ *  Endereços (ADMIN)
+ *  ========================= */
+const AddressBody = z.object({
+  line1: z.string().trim().min(2),
+  line2: optionalText,
+  district: optionalText,
+  city: z.string().trim().min(1),
+  state: optionalText,
+  postalCode: optionalText,
+  country: z.string().trim().min(2).max(56).default("US"),
+});
+
+/**
+ * POST /customers/:id/addresses { ...endereço, makeDefault? }
+ * Igual a um endereço existente do cliente -> devolve o existente (200).
+ */
+customers.post(
+  "/:id/addresses",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = AddressBody.extend({ makeDefault: z.boolean().optional() })
+      .strict()
+      .safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_body", issues: parsed.error.issues });
+
+    const c = await prisma.customer.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!c) return res.status(404).json({ error: "not_found" });
+
+    const { makeDefault, ...input } = parsed.data;
+    const { address, created } = await prisma.$transaction(async (tx) => {
+      const out = await findOrCreateAddress(c.id, input, tx);
+      if (makeDefault)
+        await tx.customer.update({
+          where: { id: c.id },
+          data: { defaultAddressId: out.address.id },
+        });
+      return out;
+    });
+    res.set("Cache-Control", "no-store");
+    res.status(created ? 201 : 200).json(address);
+  }
+);
+
+// PATCH /customers/:id/addresses/:addressId
+customers.patch(
+  "/:id/addresses/:addressId",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const parsed = AddressBody.partial()
+      .strict()
+      .safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_body", issues: parsed.error.issues });
+
+    const where = { id: req.params.addressId, customerId: req.params.id };
+    const found = await prisma.address.findFirst({ where });
+    if (!found) return res.status(404).json({ error: "address_not_found" });
+
+    const addr = await prisma.address.update({
+      where: { id: found.id },
+      data: normalizeAddress({ ...found, ...parsed.data }),
+    });
+    res.set("Cache-Control", "no-store");
+    res.json(addr);
+  }
+);
+
+/**
+ * DELETE /customers/:id/addresses/:addressId
+ * Endereço usado em pedidos só é desvinculado do cliente: os pedidos
+ * continuam apontando para ele.
+ */
+customers.delete(
+  "/:id/addresses/:addressId",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const where = { id: req.params.addressId, customerId: req.params.id };
+    const found = await prisma.address.findFirst({
+      where,
+      select: { id: true, _count: { select: { ordersAsShipping: true } } },
+    });
+    if (!found) return res.status(404).json({ error: "address_not_found" });
+
+    const usedByOrders = found._count.ordersAsShipping > 0;
+    if (usedByOrders)
+      await prisma.$transaction([
+        prisma.customer.updateMany({
+          where: { defaultAddressId: found.id },
+          data: { defaultAddressId: null },
+        }),
+        prisma.address.update({
+          where: { id: found.id },
+          data: { customerId: null },
+        }),
+      ]);
+    else await prisma.address.delete({ where: { id: found.id } });
+
+    res.set("Cache-Control", "no-store");
+    res.json({ ok: true, detached: usedByOrders });
+  }
+);
+
+/** =========================
+ *  Merge (ADMIN)
+ *  ========================= */
+
+// POST /customers/:id/merge { sourceId } — absorve sourceId neste cliente
+customers.post(
+  "/:id/merge",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const parsed = z
+      .object({ sourceId: z.string().min(1) })
+      .safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_body", issues: parsed.error.issues });
+
+    try {
+      const { customer, merge } = await mergeCustomers(
+        req.params.id,
+        parsed.data.sourceId,
+        req.user
+      );
+      res.set("Cache-Control", "no-store");
+      res.json({ ok: true, customer, merge });
+    } catch (e) {
+      if (e instanceof CustomerMergeError) {
+        const status = e.code === "same_customer" ? 400 : 404;
+        return res.status(status).json({ error: e.code, message: e.message });
+      }
+      throw e;
     }
+  }
+);
 
-    const csv = lines.join("\n");
-    res.setHeader("Content-Type", "text/csv; charset=utf-8");
-    res.setHeader(
-      "Content-Disposition",
-      'attachment; filename="contacts-optin.csv"'
-    );
-    res.send(csv);
+// GET /customers/:id/merges — auditoria dos merges neste cliente
+customers.get(
+  "/:id/merges",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const rows = await prisma.customerMerge.findMany({
+      where: { targetId: req.params.id },
+      orderBy: { createdAt: "desc" },
+      include: { actor: { select: { id: true, email: true, name: true } } },
+    });
+    res.set("Cache-Control", "no-store");
+    res.json(rows);
   }
 );
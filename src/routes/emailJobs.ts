@@ -0,0 +1,106 @@
+// src/routes/emailJobs.ts
+import { Router, Request, Response } from "express";
+import { prisma } from "../lib/prisma";
+import { requireAdmin } from "../middleware/auth";
+import { z } from "zod";
+import { processEmailQueue, requeueEmailJob } from "../lib/emailQueue";
+
+export const emailJobs = Router();
+
+emailJobs.get("/_ping", (_req, res) =>
+  res.json({ ok: true, scope: "email-jobs-router" })
+);
+
+// GET /email-jobs — lista paginada (default: falhas definitivas)
+emailJobs.get("/", requireAdmin, async (req: Request, res: Response) => {
+  const Query = z.object({
+    status: z
+      .enum(["PENDING", "SENDING", "SENT", "FAILED", "ALL"])
+      .default("FAILED"),
+    orderId: z.string().optional(),
+    page: z.coerce.number().int().positive().default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  });
+  const q = Query.safeParse(req.query);
+  if (!q.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_query", issues: q.error.issues });
+  const { status, orderId, page, pageSize } = q.data;
+
+  const where: any = {};
+  if (status !== "ALL") where.status = status;
+  if (orderId) where.orderId = orderId;
+
+  const [total, rows, counts] = await prisma.$transaction([
+    prisma.emailJob.count({ where }),
+    prisma.emailJob.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      select: {
+        id: true,
+        kind: true,
+        to: true,
+        subject: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        nextAttemptAt: true,
+        lastError: true,
+        transport: true,
+        sentAt: true,
+        orderId: true,
+        createdAt: true,
+      },
+    }),
+    prisma.emailJob.groupBy({
+      by: ["status"],
+      orderBy: { status: "asc" },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const byStatus: Record<string, number> = {};
+  for (const c of counts as any[]) byStatus[c.status] = c._count._all;
+
+  res.set("Cache-Control", "no-store");
+  res.json({ total, page, pageSize, rows, byStatus });
+});
+
+// GET /email-jobs/:id — detalhe (inclui html)
+emailJobs.get("/:id", requireAdmin, async (req: Request, res: Response) => {
+  const job = await prisma.emailJob.findUnique({ where: { id: req.params.id } });
+  if (!job) return res.status(404).json({ error: "not_found" });
+  res.set("Cache-Control", "no-store");
+  res.json(job);
+});
+
+// POST /email-jobs/:id/resend — reenvio manual
+emailJobs.post(
+  "/:id/resend",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await requeueEmailJob(req.params.id);
+      return res.json({ ok: true, id: job.id, status: job.status });
+    } catch (e: any) {
+      if (e?.code === "P2025")
+        return res.status(404).json({ error: "not_found" });
+      console.error("[emailJobs.resend] failed:", e);
+      return res.status(500).json({ error: "resend_failed" });
+    }
+  }
+);
+
+// POST /email-jobs/run — força uma passada do worker
+emailJobs.post("/run", requireAdmin, async (_req: Request, res: Response) => {
+  try {
+    await processEmailQueue();
+    res.json({ ok: true });
+  } catch (e) {
+    console.error("[emailJobs.run] failed:", e);
+    res.status(500).json({ error: "run_failed" });
+  }
+});
@@ -1,96 +1,218 @@
 // src/routes/orders.export.ts
-import { Router } from "express";
+// Montado em /orders ANTES do router principal, para não ser sombreado por GET /:id
+import { Router, Request, Response } from "express";
 import { prisma } from "../lib/prisma";
+import { requireAdmin } from "../middleware/auth";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { OrderFilterShape, buildOrderWhere } from "../lib/orderFilters";
+import { csvLine } from "../lib/csv";
 
-const router = Router();
+export const ordersExport = Router();
 
-function csvEscape(v: any) {
-  const s = String(v ?? "");
-  if (/[",\n]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
-  return s;
+const BATCH_SIZE = 500;
+
+const exportInclude = {
+  customer: true,
+  address: true,
+  items: {
+    include: {
+      product: { select: { name: true } },
+      variant: { select: { name: true, sku: true } },
+    },
+  },
+} satisfies Prisma.OrderInquiryInclude;
+
+type ExportOrder = Prisma.OrderInquiryGetPayload<{
+  include: typeof exportInclude;
+}>;
+
+const SUMMARY_HEADERS = [
+  "orderId",
+  "createdAt",
+  "status",
+  "customer_name",
+  "customer_email",
+  "customer_phone",
+  "company",
+  "opt_in",
+  "addr_line1",
+  "addr_line2",
+  "district",
+  "city",
+  "state",
+  "postalCode",
+  "country",
+  "items_count",
+  "items", // "Name (Variant) xQty @Unit"
+  "note",
+  "admin_note",
+  "subtotal",
+  "total",
+  "currency",
+];
+
+const ITEMS_HEADERS = [
+  "orderId",
+  "createdAt",
+  "status",
+  "customer_name",
+  "customer_email",
+  "company",
+  "productId",
+  "product_name",
+  "variantId",
+  "variant_name",
+  "sku",
+  "quantity",
+  "unit_price",
+  "line_total",
+  "currency",
+];
+
+function summaryRow(o: ExportOrder): unknown[] {
+  const itemsStr = o.items
+    .map((it) => {
+      const prod = it.product?.name || it.productId;
+      const variantName = it.variantName || it.variant?.name;
+      const variant = variantName ? ` (${variantName})` : "";
+      const unit = Number(it.unitPrice ?? 0);
+      const unitTxt = unit ? `@$${unit.toFixed(2)}` : "@—";
+      return `${prod}${variant} x${it.quantity} ${unitTxt}`;
+    })
+    .join(" | ");
+
+  return [
+    o.id,
+    o.createdAt.toISOString(),
+    o.status,
+    o.customer?.name || o.customerName,
+    o.customer?.email || o.customerEmail,
+    o.customer?.phone || o.customerPhone || "",
+    o.customer?.company || "",
+    o.customer?.marketingOptIn ? "yes" : "no",
+    o.address?.line1 || "",
+    o.address?.line2 || "",
+    o.address?.district || "",
+    o.address?.city || "",
+    o.address?.state || "",
+    o.address?.postalCode || "",
+    o.address?.country || "",
+    o.items.length,
+    itemsStr,
+    o.note || "",
+    o.adminNote || "",
+    Number(o.subtotal).toFixed(2),
+    Number(o.total).toFixed(2),
+    o.currency,
+  ];
+}
+
+function itemRows(o: ExportOrder): unknown[][] {
+  return o.items.map((it) => {
+    const unit = Number(it.unitPrice ?? 0);
+    return [
+      o.id,
+      o.createdAt.toISOString(),
+      o.status,
+      o.customer?.name || o.customerName,
+      o.customer?.email || o.customerEmail,
+      o.customer?.company || "",
+      it.productId,
+      it.product?.name || "",
+      it.variantId || "",
+      it.variantName || it.variant?.name || "",
+      it.variant?.sku || "",
+      it.quantity,
+      unit.toFixed(2),
+      (unit * it.quantity).toFixed(2),
+      o.currency,
+    ];
+  });
 }
 
-router.get("/orders/export/csv", async (req, res) => {
-  try {
-    const orders = await prisma.orderInquiry.findMany({
-      orderBy: { createdAt: "desc" },
-      include: {
-        customer: true,
-        address: true,
-        items: { include: { product: true, variant: true } },
-      },
+/**
+ * escreve respeitando backpressure do socket; se o cliente desconectar,
+ * "drain" nunca vem — "close"/"error" também liberam a espera
+ */
+function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (res.destroyed || res.write(chunk)) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done).off("close", done).off("error", done);
+      resolve();
+    };
+    res.once("drain", done).once("close", done).once("error", done);
+  });
+}
+
+// GET /orders/export/csv?layout=summary|items&q&status&from&to
+ordersExport.get(
+  "/export/csv",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const Query = OrderFilterShape.extend({
+      layout: z.enum(["summary", "items"]).default("summary"),
     });
+    const parsed = Query.safeParse(req.query);
+    if (!parsed.success) {
+      return res
+        .status(400)
+        .json({ error: "invalid_query", issues: parsed.error.issues });
+    }
+    const { layout, ...filters } = parsed.data;
 
-    const headers = [
-      "orderId",
-      "createdAt",
-      "status",
-      "customer_name",
-      "customer_email",
-      "customer_phone",
-      "company",
-      "opt_in",
-      "addr_line1",
-      "addr_line2",
-      "district",
-      "city",
-      "state",
-      "postalCode",
-      "country",
-      "items_count",
-      "items",          // "Name (Variant) xQty @Unit"
-      "note",
-      "total_snapshot", // soma quantity*unitPrice (quando houver)
-    ];
+    let where: Prisma.OrderInquiryWhereInput;
+    try {
+      where = buildOrderWhere(filters);
+    } catch {
+      return res.status(400).json({ error: "invalid_date" });
+    }
 
-    const rows = orders.map((o) => {
-      const total = (o.items || []).reduce((acc, it) => {
-        const unit = Number(it.unitPrice ?? 0);
-        return acc + unit * (it.quantity ?? 0);
-      }, 0);
-
-      const itemsStr = (o.items || [])
-        .map((it) => {
-          const prod = it.product?.name || it.productId;
-          const variant = it.variant?.name ? ` (${it.variant.name})` : "";
-          const unit = Number(it.unitPrice ?? 0);
-          const qty = it.quantity ?? 0;
-          const unitTxt = unit ? `@$${unit.toFixed(2)}` : "@—";
-          return `${prod}${variant} x${qty} ${unitTxt}`;
-        })
-        .join(" | ");
-
-      return [
-        o.id,
-        o.createdAt ? new Date(o.createdAt).toISOString() : "",
-        o.status || "",
-        o.customer?.name || "",
-        o.customer?.email || "",
-        o.customer?.phone || "",
-        o.customer?.company || "",
-        o.customer?.marketingOptIn ? "yes" : "no",
-        o.address?.line1 || "",
-        o.address?.line2 || "",
-        o.address?.district || "",
-        o.address?.city || "",
-        o.address?.state || "",
-        o.address?.postalCode || "",
-        o.address?.country || "",
-        (o.items || []).length,
-        itemsStr,
-        o.note || "",
-        total ? `$${total.toFixed(2)}` : "",
-      ].map(csvEscape).join(",");
+    let aborted = false;
+    req.on("close", () => {
+      aborted = true;
     });
 
-    const out = [headers.join(","), ...rows].join("\n");
-    res.setHeader("Content-Type", "text/csv; charset=utf-8");
-    res.setHeader("Content-Disposition", 'attachment; filename="orders.csv"');
-    res.send(out);
-  } catch (e) {
-    console.error(e);
-    res.status(500).json({ error: "Failed to export CSV" });
-  }
-});
+    try {
+      const stamp = new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="orders-${layout}-${stamp}.csv"`
+      );
+      res.setHeader("Cache-Control", "no-store");
 
-export default router;
\ No newline at end of file
+      const headers = layout === "items" ? ITEMS_HEADERS : SUMMARY_HEADERS;
+      await writeChunk(res, csvLine(headers));
+
+      // paginação por cursor: nunca carrega todos os pedidos em memória
+      let cursor: string | undefined;
+      while (!aborted && !res.destroyed) {
+        const batch: ExportOrder[] = await prisma.orderInquiry.findMany({
+          where,
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          take: BATCH_SIZE,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+          include: exportInclude,
+        });
+        if (!batch.length) break;
+
+        const rows =
+          layout === "items" ? batch.flatMap(itemRows) : batch.map(summaryRow);
+        if (rows.length) {
+          await writeChunk(res, rows.map(csvLine).join(""));
+        }
+
+        if (batch.length < BATCH_SIZE) break;
+        cursor = batch[batch.length - 1].id;
+      }
+      res.end();
+    } catch (e) {
+      console.error("[orders.exportCSV] failed:", e);
+      if (!res.headersSent)
+        return res.status(500).json({ error: "failed_to_export_csv" });
+      res.end();
+    }
+  }
+);
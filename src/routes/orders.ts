@@ -1,9 +1,48 @@
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
 import { prisma } from "../lib/prisma";
 import { requireAdmin } from "../middleware/auth";
 import { z } from "zod";
 import type { Prisma } from "@prisma/client";
-import { sendNewOrderEmails } from "../lib/mailer";
+import {
+  isNotifiableStatus,
+  sendNewOrderEmails,
+  sendOrderStatusEmail,
+  toEmailOrder,
+} from "../lib/mailer";
+import { kickEmailQueue } from "../lib/emailQueue";
+import { invalidateCatalog } from "../lib/catalogCache";
+import {
+  OrderItemError,
+  calcTotals,
+  priceOrderItems,
+} from "../lib/pricing";
+import {
+  RecurrenceRule,
+  approxIntervalDays,
+  formatRecurrence,
+  nextDueDate,
+  parseRecurrence,
+} from "../lib/recurrence";
+import {
+  OrderFilterShape,
+  OrderStatus,
+  STATUS_VALUES,
+  buildOrderWhere,
+} from "../lib/orderFilters";
+import {
+  buildQuotePdf,
+  quoteNumber,
+  signQuoteToken,
+  verifyQuoteToken,
+} from "../lib/quote";
+import { customerIdForEmail } from "../lib/customers";
+import { findOrCreateAddress } from "../lib/addresses";
+import { recordConsent } from "../lib/consent";
+import {
+  STATUS_TRANSITIONS,
+  canTransition,
+  stockDirectionFor,
+} from "../lib/orderStatus";
 
 export const orders = Router();
 
@@ -11,30 +50,11 @@ orders.get("/_ping", (_req, res) =>
   res.json({ ok: true, scope: "orders-router" })
 );
 
-type OrderStatus =
-  | "RECEIVED"
-  | "IN_PROGRESS"
-  | "COMPLETED"
-  | "REFUSED"
-  | "CANCELLED";
-
-const STATUS_VALUES: OrderStatus[] = [
-  "RECEIVED",
-  "IN_PROGRESS",
-  "COMPLETED",
-  "REFUSED",
-  "CANCELLED",
-];
-
 // ---------- helpers ----------
-function asNum(v: unknown): number {
-  const n = Number(v);
-  return Number.isFinite(n) ? n : 0;
-}
-
 type VariantDelegate = {
   findUnique?: (args: any) => Promise<any>;
   update?: (args: any) => Promise<any>;
+  updateMany?: (args: any) => Promise<{ count: number }>;
 };
 
 function resolveVariantDelegate(client: unknown): VariantDelegate | null {
@@ -44,6 +64,48 @@ function resolveVariantDelegate(client: unknown): VariantDelegate | null {
   return delegate as VariantDelegate;
 }
 
+/**
+ * Política de estoque (STOCK_POLICY):
+ * - "off"    (default) → status não mexe no estoque (catálogo só de cotação)
+ * - "track"  → baixa/devolve estoque, permite ficar negativo
+ * - "strict" → baixa/devolve estoque, rejeita saldo negativo (exceto allowBackorder)
+ */
+type StockPolicy = "off" | "track" | "strict";
+
+const STOCK_POLICY: StockPolicy = (() => {
+  const raw = String(process.env.STOCK_POLICY || "off").trim().toLowerCase();
+  return raw === "track" || raw === "strict" ? raw : "off";
+})();
+
+class InsufficientStockError extends Error {
+  code = "INSUFFICIENT_STOCK";
+  constructor(
+    public shortages: Array<{
+      productId: string;
+      variantId?: string;
+      requested: number;
+      available: number;
+    }>
+  ) {
+    super("Insufficient stock.");
+  }
+}
+
+class InvalidTransitionError extends Error {
+  code = "INVALID_TRANSITION";
+  constructor(public from: OrderStatus, public to: OrderStatus) {
+    super(`Cannot move an order from ${from} to ${to}.`);
+  }
+}
+
+/** outra requisição mudou o status entre a leitura e a escrita */
+class StatusConflictError extends Error {
+  code = "STATUS_CONFLICT";
+  constructor(public from: OrderStatus) {
+    super("The order status changed while this request was running.");
+  }
+}
+
 async function applyStockDelta(
   tx: Prisma.TransactionClient,
   items: Array<{
@@ -51,63 +113,116 @@ async function applyStockDelta(
     quantity: number;
     variantId?: string | null;
   }>,
-  direction: "dec" | "inc"
+  direction: "dec" | "inc",
+  opts: { allowNegative?: boolean } = {}
 ) {
   const variantDelegate = resolveVariantDelegate(tx);
+
+  // agrega por produto/variante (o mesmo produto pode vir em várias linhas)
+  const byProduct = new Map<string, number>();
+  const byVariant = new Map<string, { productId: string; qty: number }>();
   for (const it of items) {
-    const delta = direction === "dec" ? -it.quantity : it.quantity;
+    byProduct.set(
+      it.productId,
+      (byProduct.get(it.productId) ?? 0) + it.quantity
+    );
+    if (it.variantId) {
+      const prev = byVariant.get(it.variantId);
+      byVariant.set(it.variantId, {
+        productId: it.productId,
+        qty: (prev?.qty ?? 0) + it.quantity,
+      });
+    }
+  }
+
+  if (direction === "dec" && !opts.allowNegative) {
+    // baixa condicional (stock >= qty): duas transições concorrentes sobre o
+    // mesmo produto não conseguem passar juntas pela checagem
+    const shortages: InsufficientStockError["shortages"] = [];
+
+    for (const [productId, qty] of byProduct) {
+      const { count } = await tx.product.updateMany({
+        where: { id: productId, stock: { gte: qty } },
+        data: { stock: { decrement: qty } },
+      });
+      if (count) continue;
+      const row = await tx.product.findUnique({
+        where: { id: productId },
+        select: { stock: true },
+      });
+      if (row)
+        shortages.push({ productId, requested: qty, available: row.stock });
+    }
 
+    if (variantDelegate?.updateMany) {
+      for (const [variantId, v] of byVariant) {
+        const { count } = await variantDelegate.updateMany({
+          where: { id: variantId, stock: { gte: v.qty } },
+          data: { stock: { decrement: v.qty } },
+        });
+        if (count) continue;
+        // variante pode ter sido excluída depois do pedido (variantId SetNull)
+        const row = variantDelegate.findUnique
+          ? await variantDelegate.findUnique({
+              where: { id: variantId },
+              select: { stock: true },
+            })
+          : null;
+        if (row)
+          shortages.push({
+            productId: v.productId,
+            variantId,
+            requested: v.qty,
+            available: row.stock,
+          });
+      }
+    }
+
+    // a transação desfaz as baixas que já tinham passado
+    if (shortages.length) throw new InsufficientStockError(shortages);
+    return;
+  }
+
+  for (const [productId, qty] of byProduct) {
+    const delta = direction === "dec" ? -qty : qty;
     await tx.product.update({
-      where: { id: it.productId },
+      where: { id: productId },
       data: { stock: { increment: delta } },
     });
+  }
 
-    if (it.variantId && variantDelegate?.update) {
+  if (variantDelegate?.update) {
+    for (const [variantId, v] of byVariant) {
+      const delta = direction === "dec" ? -v.qty : v.qty;
+      // variante pode ter sido excluída depois do pedido (variantId SetNull)
+      const exists = variantDelegate.findUnique
+        ? await variantDelegate.findUnique({
+            where: { id: variantId },
+            select: { id: true },
+          })
+        : true;
+      if (!exists) continue;
       await variantDelegate.update({
-        where: { id: it.variantId },
+        where: { id: variantId },
         data: { stock: { increment: delta } },
       });
     }
   }
 }
 
-function calcTotals(items: Array<{ quantity: number; unitPrice: number }>) {
-  const subtotal = items.reduce(
-    (acc, it) => acc + it.quantity * asNum(it.unitPrice),
-    0
-  );
-  return {
-    subtotal: Number(subtotal.toFixed(2)),
-    total: Number(subtotal.toFixed(2)),
-  };
-}
-
-function csvEscape(s: unknown): string {
-  const str = s == null ? "" : String(s);
-  if (/[",\n]/.test(str)) return `"${str.replace(/"/g, '""')}"`;
-  return str;
-}
-
 // =============== LIST ===============
 orders.get("/", requireAdmin, async (req: Request, res: Response) => {
-  const Query = z.object({
-    q: z.string().optional(),
-    status: z.enum(STATUS_VALUES as [OrderStatus, ...OrderStatus[]]).optional(),
+  const Query = OrderFilterShape.extend({
     page: z.coerce.number().int().positive().default(1),
     pageSize: z.coerce.number().int().min(1).max(100).default(20),
   });
 
-  const { q, status, page, pageSize } = Query.parse(req.query);
-  const where: any = {};
-  if (status) where.status = status;
-  if (q && q.trim()) {
-    const term = q.trim();
-    where.OR = [
-      { id: { contains: term, mode: "insensitive" } },
-      { customerName: { contains: term, mode: "insensitive" } },
-      { customerEmail: { contains: term, mode: "insensitive" } },
-      { customerPhone: { contains: term, mode: "insensitive" } },
-    ];
+  const { page, pageSize, ...filters } = Query.parse(req.query);
+  let where: Prisma.OrderInquiryWhereInput;
+  try {
+    where = buildOrderWhere(filters);
+  } catch {
+    return res.status(400).json({ error: "invalid_date" });
   }
 
   const [total, rows] = await prisma.$transaction([
@@ -149,12 +264,87 @@ orders.get("/:id", requireAdmin, async (req: Request, res: Response) => {
           variant: { select: { id: true, name: true, sku: true } },
         },
       },
+      statusEvents: {
+        orderBy: { createdAt: "asc" },
+        include: { actor: { select: { id: true, email: true, name: true } } },
+      },
     },
   });
   if (!o) return res.status(404).json({ error: "not_found" });
   res.json(o);
 });
 
+// include usado por e-mails e PDF (formato EmailOrder)
+const orderEmailInclude = {
+  customer: true,
+  address: true,
+  items: {
+    include: {
+      product: { select: { name: true } },
+      variant: { select: { name: true, sku: true } },
+    },
+  },
+} as const;
+
+// =============== QUOTE PDF ===============
+/** admin OU link público assinado (?token=) para o mesmo pedido */
+function quoteAccess(req: Request, res: Response, next: NextFunction) {
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  if (token) {
+    if (verifyQuoteToken(token) === req.params.id) return next();
+    return res.status(401).json({ error: "invalid_or_expired_link" });
+  }
+  return requireAdmin(req, res, next);
+}
+
+orders.get("/:id/quote.pdf", quoteAccess, async (req: Request, res: Response) => {
+  try {
+    const o = await prisma.orderInquiry.findUnique({
+      where: { id: req.params.id },
+      include: orderEmailInclude,
+    });
+    if (!o) return res.status(404).json({ error: "not_found" });
+
+    const data = toEmailOrder(o);
+    const doc = buildQuotePdf(data);
+    const inline = String(req.query.download || "0") !== "1";
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `${inline ? "inline" : "attachment"}; filename="${quoteNumber(data)}.pdf"`
+    );
+    res.setHeader("Cache-Control", "private, no-store");
+    doc.pipe(res);
+  } catch (e: any) {
+    console.error("[orders.quotePdf] failed:", e);
+    if (!res.headersSent)
+      return res.status(500).json({ error: "failed_to_render_quote" });
+  }
+});
+
+// Gera link público assinado para o cliente
+orders.get(
+  "/:id/quote-link",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const o = await prisma.orderInquiry.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+    if (!o) return res.status(404).json({ error: "not_found" });
+
+    const token = signQuoteToken(o.id);
+    const base =
+      process.env.PUBLIC_API_URL?.replace(/\/$/, "") ||
+      `${req.protocol}://${req.get("host")}`;
+    res.set("Cache-Control", "no-store");
+    res.json({
+      token,
+      url: `${base}/orders/${encodeURIComponent(o.id)}/quote.pdf?token=${encodeURIComponent(token)}`,
+    });
+  }
+);
+
 // =============== CREATE (public) ===============
 orders.post("/", async (req: Request, res: Response) => {
   const Body = z.object({
@@ -182,14 +372,13 @@ orders.post("/", async (req: Request, res: Response) => {
         z.object({
           productId: z.string().min(1, "Missing productId."),
           quantity: z.number().int().positive("Quantity must be positive."),
-          unitPrice: z.number().nonnegative().optional(),
           variantId: z.string().optional().nullable(),
-          variantName: z.string().optional().nullable(),
         })
       )
       .min(1, "Provide at least one item."),
     note: z.string().max(1000, "Max 1000 characters.").optional().nullable(),
-    recurrence: z.string().optional().nullable(),
+    recurrence: z.string().max(50).optional().nullable(),
+    intervalDays: z.number().int().positive().optional().nullable(),
   });
 
   const parsed = Body.safeParse(req.body);
@@ -200,80 +389,55 @@ orders.post("/", async (req: Request, res: Response) => {
   }
   const body = parsed.data;
 
+  let rule: RecurrenceRule | null;
   try {
-    const variantDelegate = resolveVariantDelegate(prisma);
-
-    const hydratedItems = await Promise.all(
-      body.items.map(async (it) => {
-        if (it.variantId && variantDelegate?.findUnique) {
-          const variant = await variantDelegate.findUnique({
-            where: { id: it.variantId },
-          });
-          if (!variant) {
-            const err: any = new Error("Variant not found.");
-            err.code = "VARIANT_NOT_FOUND";
-            throw err;
-          }
-          const priceFromVariant = Number(variant?.price ?? 0);
-          return {
-            ...it,
-            unitPrice:
-              typeof it.unitPrice === "number"
-                ? it.unitPrice
-                : priceFromVariant,
-          };
-        }
+    rule = parseRecurrence(body.recurrence, body.intervalDays);
+  } catch {
+    return res.status(400).json({
+      error: "invalid_recurrence",
+      message:
+        'Use "weekly", "biweekly", "monthly", "quarterly" or "every N days".',
+    });
+  }
 
-        const product = await prisma.product.findUnique({
-          where: { id: it.productId },
-          select: { price: true },
-        });
-        const priceFromProduct = Number(product?.price ?? 0);
-        return {
-          ...it,
-          unitPrice:
-            typeof it.unitPrice === "number" ? it.unitPrice : priceFromProduct,
-        };
-      })
-    );
+  try {
+    // preço sempre vem do catálogo (+ promoção ativa), nunca do cliente
+    const hydratedItems = await priceOrderItems(prisma, body.items);
 
     const totals = calcTotals(hydratedItems);
 
     const created = await prisma.$transaction(async (tx) => {
+      // email absorvido por um merge continua caindo no cliente que ficou
+      const email = body.customer.email.toLowerCase();
+      const existingId = await customerIdForEmail(email, tx);
       const customer = await tx.customer.upsert({
-        where: { email: body.customer.email.toLowerCase() },
+        where: existingId ? { id: existingId } : { email },
         update: {
           name: body.customer.name,
           phone: body.customer.phone ?? undefined,
           company: body.customer.company ?? undefined,
-          marketingOptIn: body.customer.marketingOptIn ?? false,
         },
         create: {
-          email: body.customer.email.toLowerCase(),
+          email,
           name: body.customer.name,
           phone: body.customer.phone ?? undefined,
           company: body.customer.company ?? undefined,
-          marketingOptIn: body.customer.marketingOptIn ?? false,
         },
       });
 
-      let addressId: string | null = null;
-      if (body.address) {
-        const addr = await tx.address.create({
-          data: {
-            customerId: customer.id,
-            line1: body.address.line1,
-            line2: body.address.line2 ?? undefined,
-            district: body.address.district ?? undefined,
-            city: body.address.city,
-            state: body.address.state ?? undefined,
-            postalCode: body.address.postalCode ?? undefined,
-            country: body.address.country ?? "US",
-          },
-          select: { id: true },
-        });
-        addressId = addr.id;
-      }
+      // caixa desmarcada não revoga: só um descadastro explícito retira
+      if (body.customer.marketingOptIn)
+        await recordConsent(
+          customer.id,
+          "grant",
+          { source: "checkout", ip: req.ip, userAgent: req.get("user-agent") },
+          tx
+        );
+
+      // endereço igual a um já cadastrado do cliente é reutilizado
+      const addressId = body.address
+        ? (await findOrCreateAddress(customer.id, body.address, tx)).address.id
+        : null;
 
       const order = await tx.orderInquiry.create({
         data: {
@@ -282,22 +446,29 @@ orders.post("/", async (req: Request, res: Response) => {
           status: "RECEIVED",
           note: body.note ?? null,
           adminNote: null,
-          recurrence: body.recurrence ?? null,
+          recurrence: rule ? formatRecurrence(rule) : null,
+          intervalDays: rule ? approxIntervalDays(rule) : null,
+          recurrenceStatus: rule ? "ACTIVE" : null,
+          nextRunAt: rule ? nextDueDate(rule, new Date()) : null,
           customerName: customer.name,
-          customerEmail: customer.email,
+          customerEmail: email, // o email digitado (pode ser alias de merge)
           customerPhone: customer.phone ?? null,
           subtotal: totals.subtotal,
           total: totals.total,
           currency: "USD",
+          statusEvents: {
+            create: { fromStatus: null, toStatus: "RECEIVED" },
+          },
           items: {
             create: hydratedItems.map((it) => {
               const base: any = {
                 productId: it.productId,
                 quantity: it.quantity,
-                unitPrice: it.unitPrice ?? 0,
+                unitPrice: it.unitPrice,
               };
               if (it.variantId) {
                 base.variantId = it.variantId;
+                base.variantName = it.variantName;
               }
               return base;
             }),
@@ -315,51 +486,22 @@ orders.post("/", async (req: Request, res: Response) => {
         },
       });
 
+      // só enfileira, na mesma transação: pedido e EmailJobs commitam
+      // juntos — o envio (com retry) é feito pelo worker da fila
+      await sendNewOrderEmails(toEmailOrder(order), tx);
+
       return order;
     });
-
-    try {
-      await sendNewOrderEmails({
-        id: created.id,
-        createdAt: created.createdAt.toISOString(),
-        status: created.status,
-        subtotal: Number(created.subtotal),
-        total: Number(created.total),
-        customer: {
-          name: created.customer?.name || "",
-          email: created.customer?.email || "",
-          phone: created.customer?.phone || null,
-          company: created.customer?.company || null,
-          marketingOptIn: !!created.customer?.marketingOptIn,
-        },
-        address: created.address
-          ? {
-              line1: created.address.line1,
-              line2: created.address.line2,
-              district: created.address.district,
-              city: created.address.city,
-              state: created.address.state,
-              postalCode: created.address.postalCode,
-              country: created.address.country,
-            }
-          : null,
-        note: created.note || null,
-        items: created.items.map((it) => ({
-          productId: it.productId,
-          productName: it.product?.name || null,
-          variantName: it.variant?.name || null,
-          quantity: it.quantity,
-          unitPrice: Number(it.unitPrice),
-        })),
-      });
-    } catch (e: any) {
-      console.warn("[orders] email send failed:", e?.message || e);
-    }
+    kickEmailQueue();
 
     return res.status(201).json(created);
   } catch (e: any) {
-    if (e?.code === "VARIANT_NOT_FOUND") {
-      return res.status(400).json({ error: "variant_not_found" });
+    if (e instanceof OrderItemError) {
+      return res.status(400).json({
+        error: e.code.toLowerCase(),
+        message: e.message,
+        itemIndex: e.index,
+      });
     }
     if (e?.code === "P2003") {
       return res
@@ -384,19 +526,126 @@ orders.post("/", async (req: Request, res: Response) => {
 // =============== UPDATE STATUS ===============
 orders.patch("/:id/status", requireAdmin, async (req: Request, res: Response) => {
   const id = req.params.id;
-  const { status } = req.body as { status: OrderStatus };
+  const { status, reason, allowBackorder, notify, message } = req.body as {
+    status: OrderStatus;
+    reason?: string | null;
+    allowBackorder?: boolean;
+    notify?: boolean; // default true; false suprime o e-mail ao cliente
+    message?: string | null; // mensagem do admin incluída no e-mail
+  };
 
   if (!STATUS_VALUES.includes(status)) {
     return res.status(400).json({ error: "invalid_status" });
   }
+  if (reason != null && (typeof reason !== "string" || reason.length > 1000)) {
+    return res.status(400).json({ error: "invalid_reason" });
+  }
+  if (
+    message != null &&
+    (typeof message !== "string" || message.length > 2000)
+  ) {
+    return res.status(400).json({ error: "invalid_message" });
+  }
 
+  let stockMoved = false;
   try {
-    const updated = await prisma.orderInquiry.update({
-      where: { id },
-      data: { status },
+    const updated = await prisma.$transaction(async (tx) => {
+      const current = await tx.orderInquiry.findUnique({
+        where: { id },
+        select: {
+          status: true,
+          items: {
+            select: { productId: true, variantId: true, quantity: true },
+          },
+        },
+      });
+      if (!current) return null;
+
+      const from = current.status as OrderStatus;
+      if (!canTransition(from, status)) {
+        throw new InvalidTransitionError(from, status);
+      }
+
+      // só um update concorrente passa daqui: o outro espera o lock da
+      // linha, não encontra mais `from` e desiste antes de mexer no estoque
+      const claimed = await tx.orderInquiry.updateMany({
+        where: { id, status: from },
+        data: { status },
+      });
+      if (claimed.count === 0) throw new StatusConflictError(from);
+
+      const direction =
+        STOCK_POLICY === "off" ? null : stockDirectionFor(from, status);
+      if (direction) {
+        await applyStockDelta(tx, current.items, direction, {
+          allowNegative: STOCK_POLICY === "track" || allowBackorder === true,
+        });
+        stockMoved = true;
+      }
+
+      await tx.orderStatusEvent.create({
+        data: {
+          orderId: id,
+          fromStatus: from,
+          toStatus: status,
+          reason: reason?.trim() || null,
+          actorId: req.user?.id ?? null,
+          actorEmail: req.user?.email ?? null,
+        },
+      });
+
+      return tx.orderInquiry.findUnique({ where: { id } });
     });
-    return res.json(updated);
+    if (!updated) return res.status(404).json({ error: "not_found" });
+    if (stockMoved) await invalidateCatalog("stock");
+
+    let notified = false;
+    if (notify !== false && isNotifiableStatus(status)) {
+      try {
+        const full = await prisma.orderInquiry.findUnique({
+          where: { id },
+          include: orderEmailInclude,
+        });
+        if (full) {
+          const r = await sendOrderStatusEmail(
+            toEmailOrder(full),
+            status,
+            message?.trim() || null
+          );
+          notified = !!r?.ok;
+          if (notified) kickEmailQueue();
+        }
+      } catch (e: any) {
+        console.warn("[orders] status email enqueue failed:", e?.message || e);
+      }
+    }
+
+    return res.json({ ...updated, notified });
   } catch (e: any) {
+    if (e instanceof InvalidTransitionError) {
+      return res.status(409).json({
+        error: "invalid_transition",
+        message: e.message,
+        from: e.from,
+        to: e.to,
+        allowed: STATUS_TRANSITIONS[e.from] ?? [],
+      });
+    }
+    if (e instanceof StatusConflictError) {
+      return res.status(409).json({
+        error: "status_conflict",
+        message: e.message,
+        from: e.from,
+      });
+    }
+    if (e instanceof InsufficientStockError) {
+      return res.status(409).json({
+        error: "insufficient_stock",
+        message:
+          "Not enough stock to move this order. Pass allowBackorder=true to override.",
+        shortages: e.shortages,
+      });
+    }
     console.error("[orders.updateStatus] failed:", e);
     return res.status(500).json({ error: "failed_to_update_status" });
   }
@@ -421,53 +670,3 @@ orders.patch("/:id/note", requireAdmin, async (req: Request, res: Response) => {
     return res.status(500).json({ error: "failed_to_update_notes" });
   }
 });
-
-// =============== EXPORT CSV ===============
-orders.get("/export/csv", requireAdmin, async (_req: Request, res: Response) => {
-  try {
-    const orders = await prisma.orderInquiry.findMany({
-      orderBy: { createdAt: "desc" },
-    });
-
-    const header = [
-      "id",
-      "createdAt",
-      "status",
-      "customerName",
-      "customerEmail",
-      "customerPhone",
-      "subtotal",
-      "total",
-      "currency",
-      "note",
-      "adminNote",
-    ].join(",");
-
-    const rows = orders.map((o) =>
-      [
-        o.id,
-        o.createdAt.toISOString(),
-        o.status,
-        o.customerName,
-        o.customerEmail,
-        o.customerPhone ?? "",
-        o.subtotal.toString(),
-        o.total.toString(),
-        o.currency,
-        o.note ?? "",
-        o.adminNote ?? "",
-      ]
-        .map(csvEscape)
-        .join(",")
-    );
-
-    const csv = [header, ...rows].join("\n");
-
-    res.setHeader("Content-Type", "text/csv");
-    res.setHeader("Content-Disposition", "attachment; filename=orders.csv");
-    res.send(csv);
-  } catch (e: any) {
-    console.error("[orders.exportCSV] failed:", e);
-    return res.status(500).json({ error: "failed_to_export_csv" });
-  }
-});
@@ -0,0 +1,226 @@
+// src/routes/products.export.ts
+// Exportação do catálogo (CSV, JSON do import e feed do Google Merchant).
+// Montado em /products ANTES do router principal. Tudo em streaming, em
+// lotes por cursor — o catálogo nunca fica inteiro em memória.
+import { Router, Request, Response, NextFunction } from "express";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { requireAdmin } from "../middleware/auth";
+import { isAdminFromReq } from "../lib/catalog";
+import { csvLine } from "../lib/csv";
+import { PRODUCT_CSV_HEADERS } from "../lib/productImport";
+import {
+  FEED_BRAND,
+  FEED_FOOTER,
+  exportSelect,
+  feedHeader,
+  feedItems,
+  feedSelect,
+  loadCategoryInfo,
+  toCsvRows,
+  toImportShape,
+} from "../lib/productExport";
+
+export const productExport = Router();
+
+const BATCH_SIZE = 200;
+
+/**
+ * escreve respeitando backpressure do socket; se o cliente desconectar,
+ * "drain" nunca vem — "close"/"error" também liberam a espera
+ */
+function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (res.destroyed || res.write(chunk)) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done).off("close", done).off("error", done);
+      resolve();
+    };
+    res.once("drain", done).once("close", done).once("error", done);
+  });
+}
+
+/** ?activeOnly=1 -> só ativos (por padrão o admin exporta tudo) */
+function exportWhere(req: Request): Prisma.ProductWhereInput {
+  return req.query.activeOnly === "1" ? { active: true } : {};
+}
+
+/** ordem estável + página por cursor */
+function page(cursor: string | undefined) {
+  return {
+    orderBy: [{ sortOrder: "asc" as const }, { id: "asc" as const }],
+    take: BATCH_SIZE,
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+  };
+}
+
+/**
+ * Percorre os produtos em lotes chamando `render` para cada lote e
+ * escrevendo o texto; para se o cliente desconectar.
+ */
+async function streamProducts<T extends { id: string }>(
+  req: Request,
+  res: Response,
+  fetchBatch: (cursor: string | undefined) => Promise<T[]>,
+  render: (batch: T[]) => string
+) {
+  let aborted = false;
+  req.on("close", () => {
+    aborted = true;
+  });
+
+  let cursor: string | undefined;
+  while (!aborted && !res.destroyed) {
+    const batch = await fetchBatch(cursor);
+    if (!batch.length) break;
+
+    const chunk = render(batch);
+    if (chunk) await writeChunk(res, chunk);
+
+    if (batch.length < BATCH_SIZE) break;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+function attachment(res: Response, type: string, name: string, ext: string) {
+  const stamp = new Date().toISOString().slice(0, 10);
+  res.setHeader("Content-Type", `${type}; charset=utf-8`);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${name}-${stamp}.${ext}"`
+  );
+  res.setHeader("Cache-Control", "no-store");
+}
+
+// GET /products/export/csv?activeOnly=1 — uma linha por variante
+productExport.get(
+  "/export/csv",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const cats = await loadCategoryInfo();
+      attachment(res, "text/csv", "products", "csv");
+      await writeChunk(res, csvLine(PRODUCT_CSV_HEADERS));
+      await streamProducts(
+        req,
+        res,
+        (cursor) =>
+          prisma.product.findMany({
+            where: exportWhere(req),
+            select: exportSelect,
+            ...page(cursor),
+          }),
+        (batch) =>
+          batch
+            .flatMap((p) => toCsvRows(p, cats))
+            .map(csvLine)
+            .join("")
+      );
+      res.end();
+    } catch (e) {
+      console.error("[products.exportCSV] failed:", e);
+      if (!res.headersSent)
+        return res.status(500).json({ error: "failed_to_export_csv" });
+      res.end();
+    }
+  }
+);
+
+// GET /products/export/json?activeOnly=1 — mesmo formato do products.seed.json
+productExport.get(
+  "/export/json",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const cats = await loadCategoryInfo();
+      attachment(res, "application/json", "products", "json");
+      await writeChunk(res, "[");
+      let first = true;
+      await streamProducts(
+        req,
+        res,
+        (cursor) =>
+          prisma.product.findMany({
+            where: exportWhere(req),
+            select: exportSelect,
+            ...page(cursor),
+          }),
+        (batch) =>
+          batch
+            .map((p) => {
+              const json = JSON.stringify(toImportShape(p, cats), null, 2);
+              const sep = first ? "\n" : ",\n";
+              first = false;
+              return sep + json;
+            })
+            .join("")
+      );
+      await writeChunk(res, "\n]\n");
+      res.end();
+    } catch (e) {
+      console.error("[products.exportJSON] failed:", e);
+      if (!res.headersSent)
+        return res.status(500).json({ error: "failed_to_export_json" });
+      res.end();
+    }
+  }
+);
+
+/**
+ * O Google busca o feed sem login: além do ADMIN, aceita ?token= igual a
+ * FEED_TOKEN (sem FEED_TOKEN, só ADMIN).
+ */
+function feedAccess(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.FEED_TOKEN;
+  if (token && String(req.query.token || "") === token) return next();
+  if (isAdminFromReq(req)) return next();
+  return res.status(401).json({ error: "unauthorized" });
+}
+
+/** loja pública (STOREFRONT_URL ou a primeira origem do FRONTEND_ORIGIN) */
+function storefrontUrl() {
+  const first = (process.env.FRONTEND_ORIGIN || "").split(",")[0]?.trim();
+  return (process.env.STOREFRONT_URL || first || "").replace(/\/$/, "");
+}
+
+// GET /products/export/google-merchant.xml — produtos ativos, visão pública
+productExport.get(
+  "/export/google-merchant.xml",
+  feedAccess,
+  async (req: Request, res: Response) => {
+    const apiBase =
+      process.env.PUBLIC_API_URL?.replace(/\/$/, "") ||
+      `${req.protocol}://${req.get("host")}`;
+    const store = storefrontUrl();
+    try {
+      const categories = await loadCategoryInfo();
+      const ctx = {
+        categories,
+        productUrl: (slug: string) =>
+          `${store}/products/${encodeURIComponent(slug)}`,
+        absolute: (url: string) => (url.startsWith("/") ? apiBase + url : url),
+      };
+      res.setHeader("Content-Type", "application/xml; charset=utf-8");
+      res.setHeader("Cache-Control", "no-store");
+      await writeChunk(res, feedHeader(FEED_BRAND, store || apiBase));
+      await streamProducts(
+        req,
+        res,
+        (cursor): Promise<any[]> =>
+          prisma.product.findMany({
+            where: { active: true },
+            select: feedSelect(),
+            ...page(cursor),
+          }),
+        (batch) => batch.map((p) => feedItems(p, ctx)).join("")
+      );
+      await writeChunk(res, FEED_FOOTER);
+      res.end();
+    } catch (e) {
+      console.error("[products.feed] failed:", e);
+      if (!res.headersSent)
+        return res.status(500).json({ error: "failed_to_build_feed" });
+      res.end();
+    }
+  }
+);
@@ -0,0 +1,129 @@
+// src/routes/products.import.ts
+// Importação em massa (ADMIN). Montado em /products ANTES do router
+// principal, junto de products.media / products.search.
+import express, { Router, Request, Response } from "express";
+import { requireAdmin, AuthedRequest } from "../middleware/auth";
+import { acceptDataFile, uploadedFiles } from "../middleware/upload";
+import {
+  ImportFormatError,
+  ImportItem,
+  applyImport,
+  itemsFromCsv,
+  itemsFromJson,
+  planImport,
+  summarize,
+} from "../lib/productImport";
+
+export const productImport = Router();
+
+const MAX_BYTES = Number(process.env.IMPORT_MAX_MB || 10) * 1024 * 1024;
+
+/**
+ * JSON do import com o limite de IMPORT_MAX_MB. Montado no server.ts antes
+ * do express.json global (1mb), que senão responderia 413 primeiro.
+ */
+export const importJsonBody = express.json({ limit: MAX_BYTES });
+
+const isTruthy = (v: unknown) => ["1", "true", "yes"].includes(String(v));
+
+/** arquivo (campo "file"), corpo text/csv ou JSON -> itens */
+function readItems(req: Request): ImportItem[] {
+  const [file] = uploadedFiles(req);
+  if (file) {
+    const text = file.buffer.toString("utf8");
+    const isJson =
+      /\.json$/i.test(file.originalname) ||
+      file.mimetype === "application/json" ||
+      /^\uFEFF?\s*[[{]/.test(text);
+    if (!isJson) return itemsFromCsv(text);
+    try {
+      return itemsFromJson(JSON.parse(text.replace(/^\uFEFF/, "")));
+    } catch (e) {
+      if (e instanceof SyntaxError)
+        throw new ImportFormatError("invalid_json", e.message);
+      throw e;
+    }
+  }
+  if (typeof req.body === "string") return itemsFromCsv(req.body);
+  if (req.body && typeof req.body === "object" && !req.is("multipart"))
+    return itemsFromJson(req.body);
+  throw new ImportFormatError(
+    "empty_import",
+    'Send a CSV/JSON file in the "file" field, a text/csv body or a JSON body.'
+  );
+}
+
+/**
+ * POST /products/import[?dryRun=1]
+ * Casa por slug (ou SKU de variante) e devolve o diff por linha
+ * (create/update/unchanged/error). Sem dryRun grava tudo numa transação —
+ * e só se nenhuma linha tiver erro.
+ */
+productImport.post(
+  "/import",
+  requireAdmin,
+  acceptDataFile("file", MAX_BYTES),
+  express.text({ type: ["text/csv", "text/plain"], limit: MAX_BYTES }),
+  async (req: AuthedRequest, res: Response) => {
+    res.set("Cache-Control", "no-store");
+    const dryRun = isTruthy(req.query.dryRun ?? req.body?.dryRun);
+
+    let items: ImportItem[];
+    try {
+      items = readItems(req);
+    } catch (e) {
+      if (e instanceof ImportFormatError) {
+        res.locals.catalogUnchanged = true;
+        return res.status(400).json({ error: e.code, message: e.message });
+      }
+      throw e;
+    }
+
+    const plan = await planImport(items);
+    const summary = summarize(plan.rows);
+
+    if (dryRun || summary.error) {
+      res.locals.catalogUnchanged = true;
+      if (!dryRun)
+        return res.status(422).json({
+          error: "import_has_errors",
+          message: "Nothing was imported; fix the rows marked as error.",
+          committed: false,
+          summary,
+          rows: plan.rows,
+        });
+      return res.json({
+        dryRun: true,
+        committed: false,
+        summary,
+        rows: plan.rows,
+      });
+    }
+
+    if (!plan.ops.length) res.locals.catalogUnchanged = true;
+    let ids: Awaited<ReturnType<typeof applyImport>>;
+    try {
+      ids = await applyImport(plan.ops, req.user);
+    } catch (e: any) {
+      // slug/SKU criado por outra requisição entre o plano e a gravação
+      if (e?.code === "P2002") {
+        res.locals.catalogUnchanged = true;
+        return res.status(409).json({
+          error: "import_conflict",
+          message:
+            "The catalog changed while importing; nothing was imported. Run the import again.",
+          committed: false,
+        });
+      }
+      throw e;
+    }
+    res.json({
+      dryRun: false,
+      committed: true,
+      summary,
+      rows: plan.rows.map((r) =>
+        ids.has(r.row) ? { ...r, productId: ids.get(r.row) } : r
+      ),
+    });
+  }
+);
@@ -0,0 +1,423 @@
+// src/routes/products.media.ts
+// Upload de imagens (produto/variante) e ficha técnica em PDF.
+// Montado em /products ANTES do router principal.
+import { Router, Response } from "express";
+import { prisma } from "../lib/prisma";
+import { z } from "zod";
+import { requireAdmin, AuthedRequest } from "../middleware/auth";
+import { acceptFiles, uploadedFiles } from "../middleware/upload";
+import {
+  StoredFile,
+  UploadError,
+  checkUpload,
+  getStorage,
+  removeStoredUrl,
+  storeUpload,
+} from "../lib/storage";
+import { generateDerivatives } from "../lib/media";
+import { releaseUrl, withRevision } from "../lib/productRevisions";
+
+export const productMedia = Router();
+
+/** mesmo limite de galeria do Upsert em products.ts */
+const MAX_GALLERY = 10;
+
+function uploadErrorResponse(res: Response, e: unknown) {
+  if (e instanceof UploadError) {
+    return res
+      .status(e.code === "FILE_TOO_LARGE" ? 413 : 400)
+      .json({ error: e.code.toLowerCase(), message: e.message });
+  }
+  throw e;
+}
+
+/**
+ * Valida todos os arquivos antes de gravar qualquer um; se a gravação
+ * falhar no meio, apaga o que já subiu.
+ */
+async function storeAll(
+  files: Express.Multer.File[],
+  kind: "image" | "pdf",
+  folder: string
+): Promise<StoredFile[]> {
+  files.forEach((f) => checkUpload(kind, f));
+  const stored: StoredFile[] = [];
+  try {
+    for (const f of files) stored.push(await storeUpload(kind, folder, f));
+  } catch (e) {
+    await Promise.all(stored.map((s) => removeStoredUrl(s.url)));
+    throw e;
+  }
+  return stored;
+}
+
+/* ========== imagens do produto ========== */
+
+// POST /products/:id/images  (multipart, campo "files", até 10)
+productMedia.post(
+  "/:id/images",
+  requireAdmin,
+  acceptFiles("image", "files", MAX_GALLERY),
+  async (req: AuthedRequest, res: Response) => {
+    const files = uploadedFiles(req);
+    if (!files.length) return res.status(400).json({ error: "no_files" });
+
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        imageUrl: true,
+        images: { select: { sortOrder: true } },
+      },
+    });
+    if (!product) return res.status(404).json({ error: "not_found" });
+    if (product.images.length + files.length > MAX_GALLERY)
+      return res.status(409).json({
+        error: "too_many_images",
+        message: `A product can have at most ${MAX_GALLERY} images.`,
+      });
+
+    let stored: StoredFile[];
+    try {
+      stored = await storeAll(files, "image", `products/${product.id}`);
+    } catch (e) {
+      return uploadErrorResponse(res, e);
+    }
+    for (const s of stored) await generateDerivatives(s.url);
+
+    const lastSort = Math.max(0, ...product.images.map((i) => i.sortOrder));
+    await withRevision(product.id, "media", req.user, () =>
+      prisma.$transaction([
+        prisma.productImage.createMany({
+          data: stored.map((s, idx) => ({
+            productId: product.id,
+            url: s.url,
+            sortOrder: lastSort + (idx + 1) * 10,
+          })),
+        }),
+        ...(product.imageUrl
+          ? []
+          : [
+              prisma.product.update({
+                where: { id: product.id },
+                data: { imageUrl: stored[0].url },
+              }),
+            ]),
+      ])
+    );
+
+    const images = await prisma.productImage.findMany({
+      where: { productId: product.id },
+      orderBy: { sortOrder: "asc" },
+      select: { id: true, url: true, sortOrder: true },
+    });
+    res.set("Cache-Control", "no-store");
+    res.status(201).json({ uploaded: stored, images });
+  }
+);
+
+// DELETE /products/:id/images/:imageId
+productMedia.delete(
+  "/:id/images/:imageId",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const { id, imageId } = req.params;
+    const image = await prisma.productImage.findFirst({
+      where: { id: imageId, productId: id },
+      include: { product: { select: { imageUrl: true } } },
+    });
+    if (!image) return res.status(404).json({ error: "image_not_found" });
+
+    await withRevision(id, "media", req.user, async () => {
+      await prisma.productImage.delete({ where: { id: image.id } });
+
+      // se era a capa, promove a próxima imagem da galeria
+      if (image.product.imageUrl === image.url) {
+        const next = await prisma.productImage.findFirst({
+          where: { productId: id },
+          orderBy: { sortOrder: "asc" },
+          select: { url: true },
+        });
+        await prisma.product.update({
+          where: { id },
+          data: { imageUrl: next?.url ?? "" },
+        });
+      }
+    });
+
+    const fileRemoved = await releaseUrl(image.url);
+    res.set("Cache-Control", "no-store");
+    res.json({ ok: true, deleted: true, fileRemoved });
+  }
+);
+
+/* ========== imagens da variante ========== */
+
+// POST /products/:productId/variants/:variantId/images  (campo "files")
+productMedia.post(
+  "/:productId/variants/:variantId/images",
+  requireAdmin,
+  acceptFiles("image", "files", MAX_GALLERY),
+  async (req: AuthedRequest, res: Response) => {
+    const files = uploadedFiles(req);
+    if (!files.length) return res.status(400).json({ error: "no_files" });
+
+    const { productId, variantId } = req.params;
+    const variant = await prisma.productVariant.findFirst({
+      where: { id: variantId, productId },
+      select: {
+        id: true,
+        imageUrl: true,
+        images: { select: { sortOrder: true } },
+      },
+    });
+    if (!variant) return res.status(404).json({ error: "variant_not_found" });
+    if (variant.images.length + files.length > MAX_GALLERY)
+      return res.status(409).json({
+        error: "too_many_images",
+        message: `A variant can have at most ${MAX_GALLERY} images.`,
+      });
+
+    let stored: StoredFile[];
+    try {
+      stored = await storeAll(
+        files,
+        "image",
+        `products/${productId}/variants/${variantId}`
+      );
+    } catch (e) {
+      return uploadErrorResponse(res, e);
+    }
+    for (const s of stored) await generateDerivatives(s.url);
+
+    const lastSort = Math.max(0, ...variant.images.map((i) => i.sortOrder));
+    await withRevision(productId, "media", req.user, () =>
+      prisma.$transaction([
+        prisma.productVariantImage.createMany({
+          data: stored.map((s, idx) => ({
+            variantId,
+            url: s.url,
+            sortOrder: lastSort + (idx + 1) * 10,
+          })),
+        }),
+        ...(variant.imageUrl
+          ? []
+          : [
+              prisma.productVariant.update({
+                where: { id: variantId },
+                data: { imageUrl: stored[0].url },
+              }),
+            ]),
+      ])
+    );
+
+    const images = await prisma.productVariantImage.findMany({
+      where: { variantId },
+      orderBy: { sortOrder: "asc" },
+      select: { id: true, url: true, sortOrder: true },
+    });
+    res.set("Cache-Control", "no-store");
+    res.status(201).json({ uploaded: stored, images });
+  }
+);
+
+// DELETE /products/:productId/variants/:variantId/images/:imageId
+productMedia.delete(
+  "/:productId/variants/:variantId/images/:imageId",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const { productId, variantId, imageId } = req.params;
+    const image = await prisma.productVariantImage.findFirst({
+      where: { id: imageId, variant: { id: variantId, productId } },
+      include: { variant: { select: { imageUrl: true } } },
+    });
+    if (!image) return res.status(404).json({ error: "image_not_found" });
+
+    await withRevision(productId, "media", req.user, async () => {
+      await prisma.productVariantImage.delete({ where: { id: image.id } });
+
+      if (image.variant.imageUrl === image.url) {
+        const next = await prisma.productVariantImage.findFirst({
+          where: { variantId },
+          orderBy: { sortOrder: "asc" },
+          select: { url: true },
+        });
+        await prisma.productVariant.update({
+          where: { id: variantId },
+          data: { imageUrl: next?.url ?? null },
+        });
+      }
+    });
+
+    const fileRemoved = await releaseUrl(image.url);
+    res.set("Cache-Control", "no-store");
+    res.json({ ok: true, deleted: true, fileRemoved });
+  }
+);
+
+/* ========== derivados (thumb/medium/large + WebP) ========== */
+
+/** URLs de imagem de um produto (capa, galeria, variantes) */
+async function productImageUrlsById(productId: string) {
+  const p = await prisma.product.findUnique({
+    where: { id: productId },
+    select: {
+      imageUrl: true,
+      images: { select: { url: true } },
+      variants: {
+        select: { imageUrl: true, images: { select: { url: true } } },
+      },
+    },
+  });
+  if (!p) return null;
+  return [
+    ...new Set(
+      [
+        p.imageUrl,
+        ...p.images.map((i) => i.url),
+        ...p.variants.flatMap((v) => [
+          v.imageUrl,
+          ...v.images.map((i) => i.url),
+        ]),
+      ].filter((u): u is string => !!u)
+    ),
+  ];
+}
+
+async function regenerate(urls: string[]) {
+  const out = { processed: 0, generated: 0, skipped: 0 };
+  // sequencial: sharp já usa as CPUs disponíveis para cada imagem
+  for (const url of urls) {
+    out.processed++;
+    if (await generateDerivatives(url)) out.generated++;
+    else out.skipped++;
+  }
+  return out;
+}
+
+// POST /products/media/regenerate  { missingOnly?: boolean, limit?: number }
+productMedia.post(
+  "/media/regenerate",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const Body = z.object({
+      missingOnly: z.boolean().default(true),
+      limit: z.number().int().min(1).max(1000).default(200),
+    });
+    const parsed = Body.safeParse(req.body ?? {});
+    if (!parsed.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_body", issues: parsed.error.issues });
+    const { missingOnly, limit } = parsed.data;
+
+    const [products, images, variants, variantImages] = await Promise.all([
+      prisma.product.findMany({ select: { imageUrl: true } }),
+      prisma.productImage.findMany({ select: { url: true } }),
+      prisma.productVariant.findMany({
+        where: { imageUrl: { not: null } },
+        select: { imageUrl: true },
+      }),
+      prisma.productVariantImage.findMany({ select: { url: true } }),
+    ]);
+    const storage = getStorage();
+    let urls = [
+      ...new Set(
+        [
+          ...products.map((p) => p.imageUrl),
+          ...images.map((i) => i.url),
+          ...variants.map((v) => v.imageUrl),
+          ...variantImages.map((i) => i.url),
+        ].filter((u): u is string => !!u && !!storage.keyFromUrl(u))
+      ),
+    ];
+
+    if (missingOnly) {
+      const done = await prisma.mediaAsset.findMany({
+        where: { url: { in: urls } },
+        select: { url: true },
+      });
+      const have = new Set(done.map((d) => d.url));
+      urls = urls.filter((u) => !have.has(u));
+    }
+
+    const batch = urls.slice(0, limit);
+    const out = await regenerate(batch);
+    res.set("Cache-Control", "no-store");
+    res.json({ ok: true, ...out, remaining: urls.length - batch.length });
+  }
+);
+
+// POST /products/:id/images/regenerate
+productMedia.post(
+  "/:id/images/regenerate",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const urls = await productImageUrlsById(req.params.id);
+    if (!urls) return res.status(404).json({ error: "not_found" });
+    const out = await regenerate(urls);
+    res.set("Cache-Control", "no-store");
+    res.json({ ok: true, ...out });
+  }
+);
+
+/* ========== ficha técnica (PDF) ========== */
+
+// POST /products/:id/pdf  (campo "file") — substitui a ficha atual
+productMedia.post(
+  "/:id/pdf",
+  requireAdmin,
+  acceptFiles("pdf", "file"),
+  async (req: AuthedRequest, res: Response) => {
+    const [file] = uploadedFiles(req);
+    if (!file) return res.status(400).json({ error: "no_files" });
+
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, pdfUrl: true },
+    });
+    if (!product) return res.status(404).json({ error: "not_found" });
+
+    let stored: StoredFile;
+    try {
+      [stored] = await storeAll([file], "pdf", `datasheets/${product.id}`);
+    } catch (e) {
+      return uploadErrorResponse(res, e);
+    }
+
+    await withRevision(product.id, "media", req.user, () =>
+      prisma.product.update({
+        where: { id: product.id },
+        data: { pdfUrl: stored.url },
+      })
+    );
+    await releaseUrl(product.pdfUrl);
+
+    res.set("Cache-Control", "no-store");
+    res.status(201).json({ uploaded: stored, pdfUrl: stored.url });
+  }
+);
+
+// DELETE /products/:id/pdf
+productMedia.delete(
+  "/:id/pdf",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, pdfUrl: true },
+    });
+    if (!product) return res.status(404).json({ error: "not_found" });
+
+    await withRevision(product.id, "media", req.user, () =>
+      prisma.product.update({
+        where: { id: product.id },
+        data: { pdfUrl: null },
+      })
+    );
+    const fileRemoved = await releaseUrl(product.pdfUrl);
+
+    res.set("Cache-Control", "no-store");
+    res.json({ ok: true, deleted: true, fileRemoved });
+  }
+);
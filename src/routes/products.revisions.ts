@@ -0,0 +1,205 @@
+// src/routes/products.revisions.ts
+// Histórico de revisões do produto (ADMIN): lista, diff e restore.
+// Montado em /products ANTES do router principal.
+import { Router, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import { requireAdmin, AuthedRequest } from "../middleware/auth";
+import { selectForReturn, serializeProducts } from "../lib/catalog";
+import {
+  ProductSnapshot,
+  applySnapshot,
+  diffSnapshots,
+  ensureBaseline,
+  pruneRevisions,
+  recordRevision,
+  takeSnapshot,
+} from "../lib/productRevisions";
+
+export const productRevisions = Router();
+
+const actorSelect = { select: { id: true, email: true, name: true } };
+
+function serializeRevision(r: any) {
+  return {
+    id: r.id,
+    action: r.action,
+    note: r.note,
+    createdAt: r.createdAt,
+    actor: r.actor ?? (r.actorEmail ? { email: r.actorEmail } : null),
+  };
+}
+
+// GET /products/:id/revisions?page&pageSize — mais recentes primeiro
+productRevisions.get(
+  "/:id/revisions",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const q = z
+      .object({
+        page: z.coerce.number().int().min(1).default(1),
+        pageSize: z.coerce.number().int().min(1).max(100).default(20),
+      })
+      .safeParse(req.query);
+    if (!q.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_query", issues: q.error.issues });
+    const { page, pageSize } = q.data;
+    const productId = req.params.id;
+
+    const exists = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+    if (!exists) return res.status(404).json({ error: "not_found" });
+
+    const [total, rows] = await Promise.all([
+      prisma.productRevision.count({ where: { productId } }),
+      prisma.productRevision.findMany({
+        where: { productId },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        select: {
+          id: true,
+          action: true,
+          note: true,
+          createdAt: true,
+          actorEmail: true,
+          actor: actorSelect,
+        },
+      }),
+    ]);
+    res.set("Cache-Control", "no-store");
+    res.json({ total, page, pageSize, rows: rows.map(serializeRevision) });
+  }
+);
+
+async function loadRevision(productId: string, revisionId: string) {
+  return prisma.productRevision.findFirst({
+    where: { id: revisionId, productId },
+    select: {
+      id: true,
+      action: true,
+      note: true,
+      createdAt: true,
+      actorEmail: true,
+      actor: actorSelect,
+      snapshot: true,
+    },
+  });
+}
+
+// GET /products/:id/revisions/diff?from=<rev>&to=<rev|current>
+productRevisions.get(
+  "/:id/revisions/diff",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const q = z
+      .object({
+        from: z.string().min(1),
+        to: z.string().min(1).default("current"),
+      })
+      .safeParse(req.query);
+    if (!q.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_query", issues: q.error.issues });
+    const productId = req.params.id;
+
+    const from = await loadRevision(productId, q.data.from);
+    if (!from)
+      return res
+        .status(404)
+        .json({ error: "revision_not_found", id: q.data.from });
+
+    let toSnap: ProductSnapshot | null;
+    let to: ReturnType<typeof serializeRevision> | { id: "current" };
+    if (q.data.to === "current") {
+      toSnap = await takeSnapshot(productId);
+      if (!toSnap) return res.status(404).json({ error: "not_found" });
+      to = { id: "current" };
+    } else {
+      const rev = await loadRevision(productId, q.data.to);
+      if (!rev)
+        return res
+          .status(404)
+          .json({ error: "revision_not_found", id: q.data.to });
+      toSnap = rev.snapshot as unknown as ProductSnapshot;
+      to = serializeRevision(rev);
+    }
+
+    res.set("Cache-Control", "no-store");
+    res.json({
+      from: serializeRevision(from),
+      to,
+      diff: diffSnapshots(from.snapshot as unknown as ProductSnapshot, toSnap),
+    });
+  }
+);
+
+// GET /products/:id/revisions/:revisionId — snapshot completo
+productRevisions.get(
+  "/:id/revisions/:revisionId",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const rev = await loadRevision(req.params.id, req.params.revisionId);
+    if (!rev) return res.status(404).json({ error: "revision_not_found" });
+    res.set("Cache-Control", "no-store");
+    res.json({ ...serializeRevision(rev), snapshot: rev.snapshot });
+  }
+);
+
+// POST /products/:id/revisions/:revisionId/restore
+productRevisions.post(
+  "/:id/revisions/:revisionId/restore",
+  requireAdmin,
+  async (req: AuthedRequest, res: Response) => {
+    const productId = req.params.id;
+    const rev = await loadRevision(productId, req.params.revisionId);
+    if (!rev) return res.status(404).json({ error: "revision_not_found" });
+
+    let result: { missingCategories: string[] };
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        await ensureBaseline(productId, tx);
+        const out = await applySnapshot(
+          productId,
+          rev.snapshot as unknown as ProductSnapshot,
+          tx
+        );
+        await recordRevision(
+          productId,
+          "restore",
+          req.user,
+          tx,
+          `Restored revision ${rev.id}`
+        );
+        return out;
+      });
+    } catch (e: any) {
+      if (e?.code === "P2002")
+        return res.status(409).json({
+          error: "slug_conflict",
+          message:
+            "Another product now uses this revision's slug. Rename it first.",
+        });
+      throw e;
+    }
+    await pruneRevisions(productId);
+
+    const full = await prisma.product.findUnique({
+      where: { id: productId },
+      select: selectForReturn(),
+    });
+    const [product] = await serializeProducts([full], true);
+    res.set("Cache-Control", "no-store");
+    res.json({
+      ok: true,
+      restoredFrom: rev.id,
+      missingCategories: result.missingCategories,
+      product,
+    });
+  }
+);
@@ -0,0 +1,131 @@
+// src/routes/products.search.ts
+// Busca com facets. Montado em /products ANTES do router principal
+// (senão GET /:idOrSlug captura "/search").
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import { FEATURE_PROMOS } from "../lib/pricing";
+import {
+  isAdminFromReq,
+  selectForReturn,
+  serializeProducts,
+} from "../lib/catalog";
+import { priceBucket, searchCatalog } from "../lib/search";
+import { publicCatalogCache } from "../lib/catalogCache";
+
+export const productSearch = Router();
+
+const csv = z
+  .string()
+  .optional()
+  .transform((v) =>
+    (v ?? "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean)
+  );
+
+const SearchQuery = z.object({
+  q: z.string().trim().max(200).default(""),
+  category: csv, // slug ou id, qualquer categoria atribuída
+  packageSize: csv,
+  minPrice: z.coerce.number().nonnegative().optional(),
+  maxPrice: z.coerce.number().nonnegative().optional(),
+  onSale: z.enum(["0", "1"]).optional(),
+  sort: z
+    .enum([
+      "relevance",
+      "sortOrder",
+      "name_asc",
+      "name_desc",
+      "price_asc",
+      "price_desc",
+    ])
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+  all: z.string().optional(),
+});
+
+// GET /products/search?q&category&packageSize&minPrice&maxPrice&onSale&sort&page&pageSize
+productSearch.get(
+  "/search",
+  publicCatalogCache,
+  async (req: Request, res: Response) => {
+    const parsed = SearchQuery.safeParse(req.query);
+    if (!parsed.success)
+      return res
+        .status(400)
+        .json({ error: "invalid_query", issues: parsed.error.issues });
+    const { all, onSale, ...f } = parsed.data;
+    const isAdmin = all === "1" && isAdminFromReq(req);
+    const sort = f.sort ?? (f.q ? "relevance" : "sortOrder");
+
+    let found;
+    try {
+      found = await searchCatalog({
+        ...f,
+        sort,
+        onSale: onSale === undefined ? undefined : onSale === "1",
+        admin: isAdmin,
+        promos: FEATURE_PROMOS,
+      });
+    } catch (e) {
+      console.error("[products.search] query failed:", e);
+      return res.status(500).json({ error: "search_failed" });
+    }
+    // q sem nenhum termo pesquisável
+    if (!found)
+      return res.json({
+        total: 0,
+        page: f.page,
+        pageSize: f.pageSize,
+        sort,
+        rows: [],
+        facets: emptyFacets(),
+      });
+
+    const pageRows = found.ids.length
+      ? await prisma.product.findMany({
+          where: { id: { in: found.ids } },
+          select: selectForReturn(),
+        })
+      : [];
+    const byId = new Map(pageRows.map((p: any) => [p.id, p]));
+    const ordered = found.ids.map((id) => byId.get(id)).filter(Boolean);
+
+    res.set(
+      "Cache-Control",
+      isAdmin ? "no-store" : "public, max-age=30, stale-while-revalidate=60"
+    );
+    res.json({
+      total: found.total,
+      page: f.page,
+      pageSize: f.pageSize,
+      sort,
+      rows: await serializeProducts(ordered, isAdmin),
+      facets: {
+        categories: found.categories,
+        packageSizes: found.sizes,
+        price: found.price && {
+          min: Number(found.price.min),
+          max: Number(found.price.max),
+          buckets: found.price.buckets.map((b) => ({
+            ...priceBucket(Number(b.from)),
+            count: b.count,
+          })),
+        },
+        ...(FEATURE_PROMOS ? { onSale: found.sale } : {}),
+      },
+    });
+  }
+);
+
+function emptyFacets() {
+  return {
+    categories: [],
+    packageSizes: [],
+    price: null,
+    ...(FEATURE_PROMOS ? { onSale: { yes: 0, no: 0 } } : {}),
+  };
+}
@@ -1,171 +1,112 @@
-import { Router } from "express";
+import { Router, Request } from "express";
+import crypto from "crypto";
 import { prisma } from "../lib/prisma";
 import { z } from "zod";
-import jwt from "jsonwebtoken";
-import { requireAdmin } from "../middleware/auth";
+import { requireAdmin, AuthedRequest } from "../middleware/auth";
+import { FEATURE_PROMOS, computeSale } from "../lib/pricing";
+import { loadMediaMap, productImageUrls } from "../lib/media";
+import { publicCatalogCache } from "../lib/catalogCache";
+import {
+  ensureBaseline,
+  recordRevision,
+  withRevision,
+} from "../lib/productRevisions";
+import {
+  FEATURE_VAR,
+  FEATURE_VIS,
+  HAS_VARIANT_IMG_MODEL,
+  catalogVersion,
+  isAdminFromReq,
+  productCategoriesSelect,
+  selectForReturn,
+  serializeProduct,
+  serializeProducts,
+  urlish,
+} from "../lib/catalog";
 
 export const products = Router();
 
+/** admin autenticado pelo requireAdmin (autor das revisões) */
+const actorOf = (req: Request) => (req as AuthedRequest).user;
+
 /** Ping para debug */
 products.get("/_ping", (_req, res) =>
   res.json({ ok: true, scope: "products-router" })
 );
 
-/** =========================
- *  Feature flags
- *  ========================= */
-const HAS_VARIANT_MODEL = Boolean((prisma as any).productVariant);
-const HAS_VARIANT_IMG_MODEL = Boolean((prisma as any).productVariantImage);
-
-const FEATURE_VIS = process.env.FEATURE_VISIBILITY_FLAGS !== "0"; // default ON
-const FEATURE_VAR = process.env.FEATURE_VARIANTS !== "0" && HAS_VARIANT_MODEL; // precisa do model
-const FEATURE_PROMOS = process.env.FEATURE_PROMOTIONS === "1"; // default OFF
-
-/** helper: aceita http(s) OU caminho absoluto iniciando por "/" */
-const urlish = z
-  .string()
-  .refine(
-    (v) => /^https?:\/\//i.test(v) || v.startsWith("/"),
-    'Must be an http(s) URL or a path starting with "/"'
-  );
+/** relações pesadas que o grid pode dispensar (?include=) */
+const LIST_INCLUDES = ["images", "variants", "categories", "sale"] as const;
+type ListInclude = (typeof LIST_INCLUDES)[number];
 
-/** checa ADMIN com base no header Authorization */
-function isAdminFromReq(req: any): boolean {
-  try {
-    const h = req.headers?.authorization || "";
-    if (!h.startsWith("Bearer ")) return false;
-    const token = h.slice(7);
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as any;
-    const role = decoded?.role ?? "USER";
-    const id = decoded?.sub ?? decoded?.uid;
-    return !!id && role === "ADMIN";
-  } catch {
-    return false;
-  }
-}
-
-/** calcula melhor promoção ativa e preço final (usado apenas se FEATURE_PROMOS=1) */
-function computeSale(p: any) {
-  const now = new Date();
-  const actives = (p.promotions || []).filter(
-    (pr: any) =>
-      pr.active &&
-      new Date(pr.startsAt) <= now &&
-      now <= new Date(pr.endsAt) &&
-      (pr.percentOff || pr.priceOff)
-  );
-  if (!actives.length) return null;
-
-  const base = Number(p.price);
-  let best: any = null;
-  let bestPrice = base;
-
-  for (const pr of actives) {
-    let newPrice = base;
-    if (pr.percentOff) newPrice = base * (1 - pr.percentOff / 100);
-    if (pr.priceOff) newPrice = Math.min(newPrice, base - Number(pr.priceOff));
-    if (newPrice < bestPrice) {
-      bestPrice = Math.max(0, Number(newPrice.toFixed(2)));
-      best = pr;
-    }
-  }
-  if (!best || bestPrice >= base) return null;
-
-  return {
-    title: best.title,
-    percentOff: best.percentOff ?? undefined,
-    priceOff: best.priceOff ? Number(best.priceOff) : undefined,
-    startsAt: best.startsAt,
-    endsAt: best.endsAt,
-    salePrice: bestPrice,
-  };
-}
-
-/** serialização respeitando flags de visibilidade (no público) */
-function serializeProduct(p: any, isAdmin: boolean) {
-  const firstCat = p.categories?.[0]?.category ?? null;
-
-  const sale = FEATURE_PROMOS ? p.sale ?? computeSale(p) : undefined;
-
-  const visPrice = (p as any).visiblePrice ?? false;
-  const visPkg = (p as any).visiblePackageSize ?? true;
-  const visPdf = (p as any).visiblePdf ?? true;
-  const visImgs = (p as any).visibleImages ?? true;
-  const visDesc = (p as any).visibleDescription ?? true;
-
-  const show = (flag: boolean) => (isAdmin ? true : !!flag);
-
-  // Variantes (com capa + galeria)
-  const variants =
-    FEATURE_VAR && Array.isArray(p.variants)
-      ? (p.variants as any[]).map((v) => ({
-          id: v.id,
-          name: v.name,
-          price: show(visPrice) ? Number(v.price) : undefined,
-          stock: v.stock,
-          active: v.active,
-          sortOrder: v.sortOrder ?? 0,
-          sku: v.sku ?? undefined,
-          imageUrl: v.imageUrl ?? null,
-          images:
-            Array.isArray(v.images) && show(visImgs)
-              ? v.images.map((im: any) => im.url)
-              : [],
-        }))
-      : undefined;
-
-  return {
-    id: p.id,
-    name: p.name,
-    slug: p.slug,
-    description: show(visDesc) ? p.description : undefined,
-    price: show(visPrice) ? Number(p.price) : undefined,
-    active: p.active,
-    stock: p.stock,
-    sortOrder: p.sortOrder,
-    packageSize: show(visPkg) ? p.packageSize : undefined,
-    pdfUrl: show(visPdf) ? p.pdfUrl : undefined,
-    category: firstCat
-      ? {
-          id: firstCat.id,
-          name: firstCat.name,
-          slug: firstCat.slug,
-          parent: firstCat.parent
-            ? {
-                id: firstCat.parent.id,
-                name: firstCat.parent.name,
-                slug: firstCat.parent.slug,
-              }
-            : null,
-        }
-      : null,
-    images: show(visImgs) ? (p.images as any[]).map((im: any) => im.url) : [],
-    imageUrl: show(visImgs) ? p.images?.[0]?.url || p.imageUrl || null : null,
-    ...(FEATURE_PROMOS && sale ? { sale } : {}),
-    visibility: isAdmin
-      ? {
-          price: visPrice,
-          packageSize: visPkg,
-          pdf: visPdf,
-          images: visImgs,
-          description: visDesc,
-        }
-      : undefined,
-    variants,
-  };
+function csvParam(v: unknown): string[] {
+  return String(v || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
 }
 
 /** =========================
- *  GET "/" (lista; ?q, ?sort; ?all=1 p/ ADMIN)
+ *  GET "/" (lista; ?q, ?sort, ?category; ?all=1 p/ ADMIN)
+ *  Paginação por cursor: ?limit=&cursor= (resposta { rows, nextCursor });
+ *  sem limit/cursor devolve o array completo, como antes.
+ *  ?include=images,variants,categories,sale (default: tudo) e ?fields=id,name,…
+ *  ETag pela versão do catálogo -> 304 com If-None-Match.
  *  ========================= */
-products.get("/", async (req, res) => {
+products.get("/", publicCatalogCache, async (req, res) => {
   const q = String(req.query.q || "").trim();
   const sortParam = String(req.query.sort || "sortOrder");
   const allFlag = String(req.query.all || "0") === "1";
   const isAdmin = allFlag && isAdminFromReq(req);
 
+  const paginated =
+    req.query.limit !== undefined || req.query.cursor !== undefined;
+  const limit = Math.min(
+    100,
+    Math.max(1, Math.trunc(Number(req.query.limit)) || 24)
+  );
+  const cursor = String(req.query.cursor || "") || undefined;
+
+  const includeParam = csvParam(req.query.include);
+  const include = new Set<ListInclude>(
+    includeParam.length
+      ? (includeParam.filter((i) =>
+          (LIST_INCLUDES as readonly string[]).includes(i)
+        ) as ListInclude[])
+      : LIST_INCLUDES
+  );
+  const fields = csvParam(req.query.fields);
+
+  // ETag antes de tocar no catálogo: mesma versão + mesma query = mesmo corpo
+  const version = await catalogVersion();
+  const etag = `W/"${crypto
+    .createHash("sha1")
+    .update(
+      JSON.stringify([version, isAdmin, req.originalUrl.split("?")[1] ?? ""])
+    )
+    .digest("base64url")}"`;
+  res.set("ETag", etag);
+  res.set(
+    "Cache-Control",
+    isAdmin ? "no-store" : "public, max-age=60, stale-while-revalidate=120"
+  );
+  const inm = String(req.headers["if-none-match"] || "");
+  if (inm && inm.split(/\s*,\s*/).includes(etag))
+    return res.status(304).end();
+
+  // ?category=slug-ou-id[,…] — casa com qualquer categoria atribuída
+  const categoryKeys = csvParam(req.query.category);
+
   const where: any = {};
   if (!isAdmin) where.active = true;
+  if (categoryKeys.length) {
+    where.categories = {
+      some: {
+        category: {
+          OR: [{ id: { in: categoryKeys } }, { slug: { in: categoryKeys } }],
+        },
+      },
+    };
+  }
   if (q) {
     where.OR = [
       { name: { contains: q, mode: "insensitive" } },
@@ -183,103 +124,46 @@ products.get("/", async (req, res) => {
   const orderBy =
     ORDER_MAP[sortParam as keyof typeof ORDER_MAP] ?? ORDER_MAP.sortOrder;
 
-  const select: any = {
-    id: true,
-    name: true,
-    slug: true,
-    description: true,
-    price: true,
-    imageUrl: true,
-    active: true,
-    stock: true,
-    sortOrder: true,
-    packageSize: true,
-    pdfUrl: true,
-    ...(FEATURE_VIS
-      ? {
-          visibleDescription: true,
-          visibleImages: true,
-          visiblePackageSize: true,
-          visiblePdf: true,
-          visiblePrice: true,
-        }
-      : {}),
-    images: {
-      select: { url: true, sortOrder: true },
-      orderBy: { sortOrder: "asc" as const },
-    },
-    categories: {
-      take: 1,
-      select: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-            parent: {
-              select: { id: true, name: true, slug: true },
-            },
-          },
-        },
-      },
-    },
-    ...(FEATURE_PROMOS
-      ? {
-          promotions: {
-            select: {
-              title: true,
-              percentOff: true,
-              priceOff: true,
-              startsAt: true,
-              endsAt: true,
-              active: true,
-            },
-          },
-        }
-      : {}),
-  };
-
-  if (FEATURE_VAR) {
-    select.variants = {
-      select: {
-        id: true,
-        name: true,
-        price: true,
-        stock: true,
-        active: true,
-        sortOrder: true,
-        sku: true,
-        imageUrl: true,
-        ...(HAS_VARIANT_IMG_MODEL
-          ? {
-              images: {
-                select: { url: true, sortOrder: true },
-                orderBy: { sortOrder: "asc" as const },
-              },
-            }
-          : {}),
-      },
-      orderBy: { sortOrder: "asc" as const },
-    };
-  }
+  const select = selectForReturn();
+  if (!include.has("images")) select.images.take = 1; // só a capa
+  if (!include.has("categories"))
+    select.categories = { ...productCategoriesSelect, take: 1 }; // principal
+  if (!include.has("variants")) delete select.variants;
+  if (!include.has("sale")) delete select.promotions;
 
   const list = await prisma.product.findMany({
     where,
-    orderBy: [orderBy, { createdAt: "desc" as const }],
+    // id no fim: ordem total, necessária para o cursor
+    orderBy: [orderBy, { createdAt: "desc" as const }, { id: "asc" as const }],
     select,
+    ...(paginated
+      ? {
+          take: limit + 1,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        }
+      : {}),
   });
 
-  // Cache leve
-  res.set("Cache-Control", "public, max-age=60, stale-while-revalidate=120");
+  const hasMore = paginated && list.length > limit;
+  const page = hasMore ? list.slice(0, limit) : list;
+
+  const rows = (await serializeProducts(page, isAdmin)).map((p) => {
+    const out: Record<string, unknown> = { ...p };
+    if (!include.has("images")) delete out.images;
+    if (!include.has("categories")) delete out.categories;
+    if (!include.has("variants")) delete out.variants;
+    if (!fields.length) return out;
+    return Object.fromEntries(
+      Object.entries(out).filter(([k]) => k === "id" || fields.includes(k))
+    );
+  });
 
-  res.json(
-    list.map((p: any) =>
-      serializeProduct(
-        { ...p, ...(FEATURE_PROMOS ? { sale: computeSale(p) } : {}) },
-        isAdmin
-      )
-    )
-  );
+  if (!paginated) return res.json(rows);
+  res.json({
+    rows,
+    limit,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  });
 });
 
 /** ======= Validadores ======= */
@@ -315,98 +199,97 @@ const Upsert = z.object({
   packageSize: z.string().min(1).max(100).optional(),
   pdfUrl: urlish.optional(),
   images: z.array(urlish).max(10).optional(),
-  categoryId: z.string().min(1).optional(),
+  categoryId: z.string().min(1).optional(), // legado: vira a principal
+  categoryIds: z.array(z.string().min(1)).max(20).optional(),
+  primaryCategoryId: z.string().min(1).optional(),
   imageUrl: urlish.optional(),
   visibility: VisibilityShape,
   variants: z.array(VariantShape).optional(),
 });
 
-/** Helper de SELECT pro retorno completo */
-function selectForReturn() {
-  const select: any = {
-    id: true,
-    name: true,
-    slug: true,
-    description: true,
-    price: true,
-    imageUrl: true,
-    active: true,
-    stock: true,
-    sortOrder: true,
-    packageSize: true,
-    pdfUrl: true,
-    ...(FEATURE_VIS
-      ? {
-          visibleDescription: true,
-          visibleImages: true,
-          visiblePackageSize: true,
-          visiblePdf: true,
-          visiblePrice: true,
-        }
-      : {}),
-    images: {
-      select: { url: true, sortOrder: true },
-      orderBy: { sortOrder: "asc" as const },
-    },
-    categories: {
-      take: 1,
-      select: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-            parent: { select: { id: true, name: true, slug: true } },
-          },
-        },
-      },
-    },
-    ...(FEATURE_PROMOS
-      ? {
-          promotions: {
-            select: {
-              title: true,
-              percentOff: true,
-              priceOff: true,
-              startsAt: true,
-              endsAt: true,
-              active: true,
-            },
-          },
-        }
-      : {}),
-    ...(FEATURE_VAR
-      ? {
-          variants: {
-            select: {
-              id: true,
-              name: true,
-              price: true,
-              stock: true,
-              active: true,
-              sortOrder: true,
-              sku: true,
-              imageUrl: true,
-              ...(HAS_VARIANT_IMG_MODEL
-                ? {
-                    images: {
-                      select: { url: true, sortOrder: true },
-                      orderBy: { sortOrder: "asc" as const },
-                    },
-                  }
-                : {}),
-            },
-            orderBy: { sortOrder: "asc" as const },
-          },
-        }
-      : {}),
-  };
-  return select;
+/** ======= Categorias (N:N com uma principal) ======= */
+type CategoryLink = { categoryId: string; isPrimary: boolean };
+
+class CategoryNotFoundError extends Error {
+  constructor(public ids: string[]) {
+    super(`Unknown category id(s): ${ids.join(", ")}`);
+  }
+}
+
+/**
+ * Resolve `categoryIds` + `primaryCategoryId` (ou o legado `categoryId`)
+ * na lista final de vínculos. null = corpo não mexe em categorias.
+ * Sem principal explícita, mantém a atual se ela continuar na lista.
+ */
+async function resolveCategoryLinks(
+  body: {
+    categoryId?: string;
+    categoryIds?: string[];
+    primaryCategoryId?: string;
+  },
+  current?: CategoryLink[]
+): Promise<CategoryLink[] | null> {
+  const { categoryId, categoryIds, primaryCategoryId } = body;
+  if (
+    categoryIds === undefined &&
+    categoryId === undefined &&
+    primaryCategoryId === undefined
+  )
+    return null;
+
+  const explicitPrimary = primaryCategoryId ?? categoryId;
+  const base =
+    categoryIds ??
+    (categoryId !== undefined
+      ? []
+      : (current ?? []).map((l) => l.categoryId));
+  const ids = [
+    ...new Set([...(explicitPrimary ? [explicitPrimary] : []), ...base]),
+  ];
+
+  if (ids.length) {
+    const found = await prisma.category.findMany({
+      where: { id: { in: ids } },
+      select: { id: true },
+    });
+    const known = new Set(found.map((c) => c.id));
+    const missing = ids.filter((id) => !known.has(id));
+    if (missing.length) throw new CategoryNotFoundError(missing);
+  }
+
+  const currentPrimary = current?.find((l) => l.isPrimary)?.categoryId;
+  const primary =
+    explicitPrimary ??
+    (currentPrimary && ids.includes(currentPrimary) ? currentPrimary : ids[0]);
+  return ids.map((id) => ({ categoryId: id, isPrimary: id === primary }));
+}
+
+async function setProductCategories(productId: string, links: CategoryLink[]) {
+  await prisma.$transaction([
+    prisma.productCategory.deleteMany({ where: { productId } }),
+    ...(links.length
+      ? [
+          prisma.productCategory.createMany({
+            data: links.map((l) => ({ productId, ...l })),
+          }),
+        ]
+      : []),
+  ]);
 }
 
 /** Criar (ADMIN) */
 products.post("/", requireAdmin, async (req, res) => {
   const body = Upsert.parse(req.body);
+  let categoryLinks: CategoryLink[] | null;
+  try {
+    categoryLinks = await resolveCategoryLinks(body);
+  } catch (e) {
+    if (e instanceof CategoryNotFoundError)
+      return res
+        .status(400)
+        .json({ error: "category_not_found", ids: e.ids, message: e.message });
+    throw e;
+  }
   const slug = body.name
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
@@ -438,10 +321,8 @@ products.post("/", requireAdmin, async (req, res) => {
 
   const created = await prisma.product.create({ data: createData });
 
-  if (body.categoryId) {
-    await prisma.productCategory.create({
-      data: { productId: created.id, categoryId: body.categoryId },
-    });
+  if (categoryLinks?.length) {
+    await setProductCategories(created.id, categoryLinks);
   }
 
   if (body.images?.length) {
@@ -483,11 +364,14 @@ products.post("/", requireAdmin, async (req, res) => {
     }
   }
 
+  await recordRevision(created.id, "create", actorOf(req));
+
   const select = selectForReturn();
   const full = await prisma.product.findUnique({
     where: { id: created.id },
     select,
   });
+  const media = await loadMediaMap(productImageUrls([full]));
 
   res.set("Cache-Control", "no-store");
   res
@@ -495,14 +379,19 @@ products.post("/", requireAdmin, async (req, res) => {
     .json(
       serializeProduct(
         { ...full!, ...(FEATURE_PROMOS ? { sale: computeSale(full) } : {}) },
-        true
+        true,
+        media
       )
     );
 });
 
 /** ============== Atualizar (ADMIN) ============== */
 // função compartilhada para PUT/PATCH
-async function updateProductCore(id: string, bodyRaw: any) {
+async function updateProductCore(
+  id: string,
+  bodyRaw: any,
+  actor: AuthedRequest["user"]
+) {
   const body = Upsert.partial().parse(bodyRaw);
 
   const patch: any = {
@@ -531,17 +420,18 @@ async function updateProductCore(id: string, bodyRaw: any) {
     if (v.description !== undefined) patch.visibleDescription = v.description;
   }
 
+  // Categorias (valida antes de gravar qualquer coisa)
+  const currentLinks = await prisma.productCategory.findMany({
+    where: { productId: id },
+    select: { categoryId: true, isPrimary: true },
+  });
+  const categoryLinks = await resolveCategoryLinks(body, currentLinks);
+
+  // histórico: o estado anterior fica guardado antes da regravação
+  await ensureBaseline(id);
   await prisma.product.update({ where: { id }, data: patch });
 
-  // Categoria
-  if (body.categoryId !== undefined) {
-    await prisma.productCategory.deleteMany({ where: { productId: id } });
-    if (body.categoryId) {
-      await prisma.productCategory.create({
-        data: { productId: id, categoryId: body.categoryId },
-      });
-    }
-  }
+  if (categoryLinks) await setProductCategories(id, categoryLinks);
 
   // Imagens
   if (body.images) {
@@ -591,28 +481,48 @@ async function updateProductCore(id: string, bodyRaw: any) {
     }
   }
 
+  await recordRevision(id, "update", actor);
+
   const select = selectForReturn();
   const full = await prisma.product.findUnique({ where: { id }, select });
+  const media = await loadMediaMap(productImageUrls([full]));
   return serializeProduct(
     { ...full!, ...(FEATURE_PROMOS ? { sale: computeSale(full) } : {}) },
-    true
+    true,
+    media
   );
 }
 
 // PUT (completo)
 products.put("/:id", requireAdmin, async (req, res) => {
   const id = req.params.id;
-  const out = await updateProductCore(id, req.body);
-  res.set("Cache-Control", "no-store");
-  res.json(out);
+  try {
+    const out = await updateProductCore(id, req.body, actorOf(req));
+    res.set("Cache-Control", "no-store");
+    res.json(out);
+  } catch (e) {
+    if (e instanceof CategoryNotFoundError)
+      return res
+        .status(400)
+        .json({ error: "category_not_found", ids: e.ids, message: e.message });
+    throw e;
+  }
 });
 
 // PATCH alias — mesmo comportamento do PUT
 products.patch("/:id", requireAdmin, async (req, res) => {
   const id = req.params.id;
-  const out = await updateProductCore(id, req.body);
-  res.set("Cache-Control", "no-store");
-  res.json(out);
+  try {
+    const out = await updateProductCore(id, req.body, actorOf(req));
+    res.set("Cache-Control", "no-store");
+    res.json(out);
+  } catch (e) {
+    if (e instanceof CategoryNotFoundError)
+      return res
+        .status(400)
+        .json({ error: "category_not_found", ids: e.ids, message: e.message });
+    throw e;
+  }
 });
 
 /** Deletar (ADMIN) — arquiva se houver pedidos */
@@ -626,7 +536,9 @@ products.delete("/:id", requireAdmin, async (req, res) => {
       : 0;
 
     if (usage > 0) {
-      await prisma.product.update({ where: { id }, data: { active: false } });
+      await withRevision(id, "archive", actorOf(req), () =>
+        prisma.product.update({ where: { id }, data: { active: false } })
+      );
       res.set("Cache-Control", "no-store");
       return res.status(200).json({
         ok: true,
@@ -698,10 +610,12 @@ products.delete("/:id/hard", requireAdmin, async (req, res) => {
 /** Ordenação (ADMIN) */
 products.patch("/:id/sort-order", requireAdmin, async (req, res) => {
   const body = z.object({ sortOrder: z.coerce.number().int() }).parse(req.body);
-  await prisma.product.update({
-    where: { id: req.params.id },
-    data: { sortOrder: body.sortOrder },
-  });
+  await withRevision(req.params.id, "update", actorOf(req), () =>
+    prisma.product.update({
+      where: { id: req.params.id },
+      data: { sortOrder: body.sortOrder },
+    })
+  );
   res.set("Cache-Control", "no-store");
   res.json({ ok: true });
 });
@@ -709,10 +623,12 @@ products.patch("/:id/sort-order", requireAdmin, async (req, res) => {
 /** Arquivar / Desarquivar (ADMIN) */
 products.patch("/:id/archive", requireAdmin, async (req, res) => {
   try {
-    await prisma.product.update({
-      where: { id: req.params.id },
-      data: { active: false },
-    });
+    await withRevision(req.params.id, "archive", actorOf(req), () =>
+      prisma.product.update({
+        where: { id: req.params.id },
+        data: { active: false },
+      })
+    );
     res.set("Cache-Control", "no-store");
     return res.json({ ok: true });
   } catch (err) {
@@ -722,10 +638,12 @@ products.patch("/:id/archive", requireAdmin, async (req, res) => {
 });
 products.patch("/:id/unarchive", requireAdmin, async (req, res) => {
   try {
-    await prisma.product.update({
-      where: { id: req.params.id },
-      data: { active: true },
-    });
+    await withRevision(req.params.id, "unarchive", actorOf(req), () =>
+      prisma.product.update({
+        where: { id: req.params.id },
+        data: { active: true },
+      })
+    );
     res.set("Cache-Control", "no-store");
     return res.json({ ok: true });
   } catch (err) {
@@ -759,10 +677,12 @@ products.patch("/:id/visibility", requireAdmin, async (req, res) => {
   if (b.images !== undefined) data.visibleImages = b.images;
   if (b.description !== undefined) data.visibleDescription = b.description;
 
-  const updated = await prisma.product.update({
-    where: { id: req.params.id },
-    data,
-  });
+  const updated = await withRevision(
+    req.params.id,
+    "visibility",
+    actorOf(req),
+    () => prisma.product.update({ where: { id: req.params.id }, data })
+  );
   const vis = {
     price: (updated as any).visiblePrice ?? false,
     packageSize: (updated as any).visiblePackageSize ?? true,
@@ -816,26 +736,28 @@ products.patch(
     if (b.sku !== undefined) data.sku = b.sku;
     if (b.imageUrl !== undefined) data.imageUrl = b.imageUrl;
 
-    await (prisma as any).productVariant.update({
-      where: { id: variantId },
-      data,
-    });
-
-    // Se enviou images, regrava galeria
-    if (HAS_VARIANT_IMG_MODEL && b.images) {
-      await (prisma as any).productVariantImage.deleteMany({
-        where: { variantId },
+    await withRevision(productId, "update", actorOf(req), async () => {
+      await (prisma as any).productVariant.update({
+        where: { id: variantId },
+        data,
       });
-      if (b.images.length) {
-        await (prisma as any).productVariantImage.createMany({
-          data: b.images.map((url, idx) => ({
-            variantId,
-            url,
-            sortOrder: (idx + 1) * 10,
-          })),
+
+      // Se enviou images, regrava galeria
+      if (HAS_VARIANT_IMG_MODEL && b.images) {
+        await (prisma as any).productVariantImage.deleteMany({
+          where: { variantId },
         });
+        if (b.images.length) {
+          await (prisma as any).productVariantImage.createMany({
+            data: b.images.map((url, idx) => ({
+              variantId,
+              url,
+              sortOrder: (idx + 1) * 10,
+            })),
+          });
+        }
       }
-    }
+    });
 
     res.set("Cache-Control", "no-store");
     return res.json({ ok: true });
@@ -856,15 +778,17 @@ products.delete(
     });
     if (!exists) return res.status(404).json({ error: "variant_not_found" });
 
-    await prisma.$transaction(
-      [
-        HAS_VARIANT_IMG_MODEL
-          ? (prisma as any).productVariantImage.deleteMany({
-              where: { variantId },
-            })
-          : null,
-        (prisma as any).productVariant.delete({ where: { id: variantId } }),
-      ].filter(Boolean) as any
+    await withRevision(productId, "update", actorOf(req), () =>
+      prisma.$transaction(
+        [
+          HAS_VARIANT_IMG_MODEL
+            ? (prisma as any).productVariantImage.deleteMany({
+                where: { variantId },
+              })
+            : null,
+          (prisma as any).productVariant.delete({ where: { id: variantId } }),
+        ].filter(Boolean) as any
+      )
     );
 
     res.set("Cache-Control", "no-store");
@@ -875,7 +799,7 @@ products.delete(
 /** =========================
  *  GET "/:idOrSlug"  (detalhe)
  *  ========================= */
-products.get("/:idOrSlug", async (req, res) => {
+products.get("/:idOrSlug", publicCatalogCache, async (req, res) => {
   const idOrSlug = req.params.idOrSlug;
 
   const select: any = {
@@ -903,19 +827,7 @@ products.get("/:idOrSlug", async (req, res) => {
       select: { url: true, sortOrder: true },
       orderBy: { sortOrder: "asc" as const },
     },
-    categories: {
-      take: 1,
-      select: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-            parent: { select: { id: true, name: true, slug: true } },
-          },
-        },
-      },
-    },
+    categories: productCategoriesSelect,
     ...(FEATURE_PROMOS
       ? {
           promotions: {
@@ -973,11 +885,14 @@ products.get("/:idOrSlug", async (req, res) => {
   if (!isAdmin && !p.active)
     return res.status(404).json({ error: "not_found" });
 
+  const media = await loadMediaMap(productImageUrls([p]));
+
   res.set("Cache-Control", "public, max-age=30, stale-while-revalidate=60");
   return res.json(
     serializeProduct(
       { ...p, ...(FEATURE_PROMOS ? { sale: computeSale(p) } : {}) },
-      isAdmin
+      isAdmin,
+      media
     )
   );
 });
\ No newline at end of file
@@ -1,6 +1,8 @@
 // src/routes/promotions.ts
 import { Router } from "express";
 import { prisma } from "../lib/prisma";
+import { z } from "zod";
+import { requireAdmin } from "../middleware/auth";
 
 export const promotions = Router();
 
@@ -36,3 +38,266 @@ promotions.get("/", async (_req, res) => {
     res.status(500).json({ error: "Failed to load promotions" });
   }
 });
+
+/** =========================
+ *  ADMIN
+ *  ========================= */
+
+const PromotionShape = z.object({
+  productId: z.string().min(1),
+  title: z.string().min(2).max(120),
+  description: z.string().max(1000).nullable().optional(),
+  percentOff: z.coerce.number().int().min(1).max(100).nullable().optional(),
+  priceOff: z.coerce.number().positive().nullable().optional(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  active: z.boolean().optional().default(true),
+  // aceita sobreposição (retorna apenas aviso em vez de 409)
+  allowOverlap: z.boolean().optional().default(false),
+});
+
+const OVERLAP_MESSAGE =
+  "Another active promotion overlaps this period. Only the best discount is applied; pass allowOverlap=true to keep both.";
+
+type PromotionDraft = {
+  productId: string;
+  percentOff?: number | null;
+  priceOff?: number | null;
+  startsAt: Date;
+  endsAt: Date;
+  active: boolean;
+};
+
+/** valida regras de negócio; retorna código de erro ou null */
+function validatePromotion(p: PromotionDraft): string | null {
+  if (!(p.startsAt < p.endsAt)) return "invalid_date_range";
+  const hasPercent = p.percentOff != null;
+  const hasPrice = p.priceOff != null;
+  if (hasPercent === hasPrice) return "exactly_one_discount_required";
+  return null;
+}
+
+/** promoções ativas do mesmo produto cujo intervalo cruza o informado */
+async function findOverlaps(p: PromotionDraft, excludeId?: string) {
+  if (!p.active) return [];
+  return prisma.promotion.findMany({
+    where: {
+      productId: p.productId,
+      active: true,
+      startsAt: { lt: p.endsAt },
+      endsAt: { gt: p.startsAt },
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+    select: {
+      id: true,
+      title: true,
+      percentOff: true,
+      priceOff: true,
+      startsAt: true,
+      endsAt: true,
+    },
+    orderBy: { startsAt: "asc" },
+  });
+}
+
+// Lista todas (inclui agendadas/expiradas/inativas); ?productId, ?state
+promotions.get("/admin", requireAdmin, async (req, res) => {
+  const Query = z.object({
+    productId: z.string().optional(),
+    state: z
+      .enum(["all", "running", "scheduled", "expired", "inactive"])
+      .default("all"),
+  });
+  const q = Query.safeParse(req.query);
+  if (!q.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_query", issues: q.error.issues });
+  const { productId, state } = q.data;
+
+  const now = new Date();
+  const where: any = {};
+  if (productId) where.productId = productId;
+  if (state === "running") {
+    Object.assign(where, {
+      active: true,
+      startsAt: { lte: now },
+      endsAt: { gte: now },
+    });
+  } else if (state === "scheduled") {
+    Object.assign(where, { active: true, startsAt: { gt: now } });
+  } else if (state === "expired") {
+    where.endsAt = { lt: now };
+  } else if (state === "inactive") {
+    where.active = false;
+  }
+
+  const list = await prisma.promotion.findMany({
+    where,
+    include: { product: { select: { id: true, name: true, slug: true } } },
+    orderBy: [{ startsAt: "desc" }],
+  });
+
+  res.set("Cache-Control", "no-store");
+  res.json(list);
+});
+
+// Criar
+promotions.post("/", requireAdmin, async (req, res) => {
+  const parsed = PromotionShape.safeParse(req.body);
+  if (!parsed.success) {
+    return res
+      .status(400)
+      .json({ error: "invalid_body", issues: parsed.error.issues });
+  }
+  const { allowOverlap, ...body } = parsed.data;
+
+  const invalid = validatePromotion(body);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  const product = await prisma.product.findUnique({
+    where: { id: body.productId },
+    select: { id: true },
+  });
+  if (!product) return res.status(404).json({ error: "product_not_found" });
+
+  const overlaps = await findOverlaps(body);
+  if (overlaps.length && !allowOverlap) {
+    return res.status(409).json({
+      error: "promotion_overlap",
+      message: OVERLAP_MESSAGE,
+      overlaps,
+    });
+  }
+
+  let created;
+  try {
+    created = await prisma.promotion.create({
+      data: {
+        productId: body.productId,
+        title: body.title,
+        description: body.description ?? null,
+        percentOff: body.percentOff ?? null,
+        priceOff: body.priceOff ?? null,
+        startsAt: body.startsAt,
+        endsAt: body.endsAt,
+        active: body.active,
+      },
+    });
+  } catch (e: any) {
+    // produto apagado entre a checagem e o insert
+    if (e?.code === "P2003")
+      return res.status(404).json({ error: "product_not_found" });
+    throw e;
+  }
+
+  res.set("Cache-Control", "no-store");
+  res.status(201).json({
+    ...created,
+    ...(overlaps.length ? { warnings: { overlaps } } : {}),
+  });
+});
+
+// Atualizar / reagendar
+promotions.patch("/:id", requireAdmin, async (req, res) => {
+  const parsed = PromotionShape.omit({ productId: true })
+    .partial()
+    .safeParse(req.body);
+  if (!parsed.success) {
+    return res
+      .status(400)
+      .json({ error: "invalid_body", issues: parsed.error.issues });
+  }
+  const { allowOverlap, ...patch } = parsed.data;
+
+  const current = await prisma.promotion.findUnique({
+    where: { id: req.params.id },
+  });
+  if (!current) return res.status(404).json({ error: "not_found" });
+
+  // estado resultante = atual + patch (null explícito limpa o desconto)
+  const next: PromotionDraft = {
+    productId: current.productId,
+    percentOff:
+      patch.percentOff !== undefined ? patch.percentOff : current.percentOff,
+    priceOff:
+      patch.priceOff !== undefined
+        ? patch.priceOff
+        : current.priceOff != null
+        ? Number(current.priceOff)
+        : null,
+    startsAt: patch.startsAt ?? current.startsAt,
+    endsAt: patch.endsAt ?? current.endsAt,
+    active: patch.active ?? current.active,
+  };
+
+  const invalid = validatePromotion(next);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  const overlaps = await findOverlaps(next, current.id);
+  if (overlaps.length && !allowOverlap) {
+    return res.status(409).json({
+      error: "promotion_overlap",
+      message: OVERLAP_MESSAGE,
+      overlaps,
+    });
+  }
+
+  let updated;
+  try {
+    updated = await prisma.promotion.update({
+      where: { id: current.id },
+      data: {
+        title: patch.title,
+        description: patch.description,
+        percentOff: next.percentOff ?? null,
+        priceOff: next.priceOff ?? null,
+        startsAt: next.startsAt,
+        endsAt: next.endsAt,
+        active: next.active,
+      },
+    });
+  } catch (e: any) {
+    // removida entre a leitura e a escrita
+    if (e?.code === "P2025")
+      return res.status(404).json({ error: "not_found" });
+    throw e;
+  }
+
+  res.set("Cache-Control", "no-store");
+  res.json({
+    ...updated,
+    ...(overlaps.length ? { warnings: { overlaps } } : {}),
+  });
+});
+
+// Desativar (mantém histórico)
+promotions.patch("/:id/deactivate", requireAdmin, async (req, res) => {
+  try {
+    const updated = await prisma.promotion.update({
+      where: { id: req.params.id },
+      data: { active: false },
+    });
+    res.set("Cache-Control", "no-store");
+    return res.json(updated);
+  } catch (e: any) {
+    if (e?.code === "P2025")
+      return res.status(404).json({ error: "not_found" });
+    console.error("deactivate promotion failed", e);
+    return res.status(500).json({ error: "deactivate_failed" });
+  }
+});
+
+// Excluir
+promotions.delete("/:id", requireAdmin, async (req, res) => {
+  try {
+    await prisma.promotion.delete({ where: { id: req.params.id } });
+    res.set("Cache-Control", "no-store");
+    return res.json({ ok: true, deleted: true });
+  } catch (e: any) {
+    if (e?.code === "P2025")
+      return res.status(404).json({ error: "not_found" });
+    console.error("delete promotion failed", e);
+    return res.status(500).json({ error: "delete_failed" });
+  }
+});
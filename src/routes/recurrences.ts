@@ -0,0 +1,216 @@
+// src/routes/recurrences.ts
+import { Router, Request, Response } from "express";
+import { prisma } from "../lib/prisma";
+import { requireAdmin } from "../middleware/auth";
+import { z } from "zod";
+import { parseRecurrence, upcomingDates } from "../lib/recurrence";
+import { advancePast, runDueRecurrences } from "../lib/recurringOrders";
+
+export const recurrences = Router();
+
+recurrences.get("/_ping", (_req, res) =>
+  res.json({ ok: true, scope: "recurrences-router" })
+);
+
+function safeRule(o: {
+  recurrence: string | null;
+  intervalDays: number | null;
+}) {
+  try {
+    return parseRecurrence(o.recurrence, o.intervalDays);
+  } catch {
+    return null;
+  }
+}
+
+const seriesSelect = {
+  id: true,
+  createdAt: true,
+  status: true,
+  customerId: true,
+  customerName: true,
+  customerEmail: true,
+  recurrence: true,
+  intervalDays: true,
+  recurrenceStatus: true,
+  nextRunAt: true,
+  total: true,
+  currency: true,
+  _count: { select: { childOrders: true, items: true } },
+} as const;
+
+// =============== LIST (próximas execuções) ===============
+recurrences.get("/", requireAdmin, async (req: Request, res: Response) => {
+  const Query = z.object({
+    status: z.enum(["ACTIVE", "PAUSED", "CANCELLED"]).optional(),
+    withinDays: z.coerce.number().int().min(1).max(366).optional(),
+    preview: z.coerce.number().int().min(1).max(12).default(3),
+  });
+  const q = Query.safeParse(req.query);
+  if (!q.success)
+    return res
+      .status(400)
+      .json({ error: "invalid_query", issues: q.error.issues });
+  const { status, withinDays, preview } = q.data;
+
+  const where: any = {
+    parentOrderId: null,
+    recurrenceStatus: status ?? { in: ["ACTIVE", "PAUSED"] },
+  };
+  if (withinDays) {
+    where.nextRunAt = {
+      lte: new Date(Date.now() + withinDays * 24 * 60 * 60 * 1000),
+    };
+  }
+
+  const rows = await prisma.orderInquiry.findMany({
+    where,
+    orderBy: [{ nextRunAt: "asc" }, { createdAt: "desc" }],
+    select: seriesSelect,
+  });
+
+  res.set("Cache-Control", "no-store");
+  res.json(
+    rows.map((r) => {
+      const rule = safeRule(r);
+      return {
+        ...r,
+        upcoming:
+          rule && r.nextRunAt && r.recurrenceStatus === "ACTIVE"
+            ? upcomingDates(rule, r.nextRunAt, preview, r.createdAt)
+            : [],
+      };
+    })
+  );
+});
+
+// =============== DETAIL (série + pedidos gerados) ===============
+recurrences.get("/:id", requireAdmin, async (req: Request, res: Response) => {
+  const series = await prisma.orderInquiry.findUnique({
+    where: { id: req.params.id },
+    select: {
+      ...seriesSelect,
+      childOrders: {
+        orderBy: { createdAt: "desc" },
+        select: {
+          id: true,
+          createdAt: true,
+          status: true,
+          total: true,
+        },
+      },
+    },
+  });
+  if (!series || !series.recurrenceStatus)
+    return res.status(404).json({ error: "not_found" });
+  res.json(series);
+});
+
+/** carrega a raiz da série ou responde 404/409 */
+async function loadSeries(req: Request, res: Response) {
+  const series = await prisma.orderInquiry.findUnique({
+    where: { id: req.params.id },
+    select: {
+      id: true,
+      createdAt: true,
+      recurrence: true,
+      intervalDays: true,
+      recurrenceStatus: true,
+      nextRunAt: true,
+    },
+  });
+  if (!series || !series.recurrenceStatus) {
+    res.status(404).json({ error: "not_found" });
+    return null;
+  }
+  if (series.recurrenceStatus === "CANCELLED") {
+    res.status(409).json({ error: "series_cancelled" });
+    return null;
+  }
+  return series;
+}
+
+// Pausar
+recurrences.patch(
+  "/:id/pause",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const series = await loadSeries(req, res);
+    if (!series) return;
+    const updated = await prisma.orderInquiry.update({
+      where: { id: series.id },
+      data: { recurrenceStatus: "PAUSED" },
+      select: seriesSelect,
+    });
+    res.json(updated);
+  }
+);
+
+// Retomar (recalcula a próxima data se ficou no passado)
+recurrences.patch(
+  "/:id/resume",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const series = await loadSeries(req, res);
+    if (!series) return;
+    const rule = safeRule(series);
+    if (!rule) return res.status(409).json({ error: "invalid_recurrence" });
+
+    const now = new Date();
+    const nextRunAt =
+      series.nextRunAt && series.nextRunAt > now
+        ? series.nextRunAt
+        : advancePast(rule, series.nextRunAt ?? now, series.createdAt, now);
+
+    const updated = await prisma.orderInquiry.update({
+      where: { id: series.id },
+      data: { recurrenceStatus: "ACTIVE", nextRunAt },
+      select: seriesSelect,
+    });
+    res.json(updated);
+  }
+);
+
+// Pular um ciclo
+recurrences.post(
+  "/:id/skip",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const series = await loadSeries(req, res);
+    if (!series) return;
+    const rule = safeRule(series);
+    if (!rule || !series.nextRunAt)
+      return res.status(409).json({ error: "invalid_recurrence" });
+
+    const skipped = series.nextRunAt;
+    const nextRunAt = advancePast(rule, skipped, series.createdAt, new Date());
+    const updated = await prisma.orderInquiry.update({
+      where: { id: series.id },
+      data: { nextRunAt },
+      select: seriesSelect,
+    });
+    res.json({ ...updated, skipped });
+  }
+);
+
+// Cancelar a série (pedidos já gerados permanecem)
+recurrences.patch(
+  "/:id/cancel",
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    const series = await loadSeries(req, res);
+    if (!series) return;
+    const updated = await prisma.orderInquiry.update({
+      where: { id: series.id },
+      data: { recurrenceStatus: "CANCELLED", nextRunAt: null },
+      select: seriesSelect,
+    });
+    res.json(updated);
+  }
+);
+
+// Execução manual do motor (útil em dev / após downtime)
+recurrences.post("/run", requireAdmin, async (_req: Request, res: Response) => {
+  const out = await runDueRecurrences();
+  res.json({ ok: true, ...out });
+});
@@ -0,0 +1,44 @@
+// src/routes/uploads.ts
+// Upload avulso (ex.: formulário de produto novo, antes de existir id).
+// A URL devolvida pode ir direto em imageUrl / images / pdfUrl.
+import { Router, Request, Response } from "express";
+import { requireAdmin } from "../middleware/auth";
+import { acceptFiles, uploadedFiles } from "../middleware/upload";
+import { UploadError, storeUpload } from "../lib/storage";
+import { generateDerivatives, imageSet } from "../lib/media";
+
+export const uploads = Router();
+
+const handle = (kind: "image" | "pdf") =>
+  async (req: Request, res: Response) => {
+    const [file] = uploadedFiles(req);
+    if (!file) return res.status(400).json({ error: "no_files" });
+    try {
+      const stored = await storeUpload(
+        kind,
+        kind === "pdf" ? "datasheets/unassigned" : "products/unassigned",
+        file
+      );
+      const asset =
+        kind === "image" ? await generateDerivatives(stored.url) : null;
+      res.set("Cache-Control", "no-store");
+      return res
+        .status(201)
+        .json({ ...stored, image: asset ? imageSet(stored.url, asset) : null });
+    } catch (e) {
+      if (e instanceof UploadError)
+        return res
+          .status(e.code === "FILE_TOO_LARGE" ? 413 : 400)
+          .json({ error: e.code.toLowerCase(), message: e.message });
+      throw e;
+    }
+  };
+
+// POST /uploads/image | /uploads/pdf  (multipart, campo "file")
+uploads.post(
+  "/image",
+  requireAdmin,
+  acceptFiles("image", "file"),
+  handle("image")
+);
+uploads.post("/pdf", requireAdmin, acceptFiles("pdf", "file"), handle("pdf"));
@@ -9,9 +9,29 @@ import { prisma } from "./lib/prisma";
 import { auth } from "./routes/auth";
 import { products } from "./routes/products";
 import { orders } from "./routes/orders";
+import { ordersExport } from "./routes/orders.export";
+import { productMedia } from "./routes/products.media";
+import { productSearch } from "./routes/products.search";
+import { productImport, importJsonBody } from "./routes/products.import";
+import { productExport } from "./routes/products.export";
+import { productRevisions } from "./routes/products.revisions";
+import { uploads } from "./routes/uploads";
 import { promotions } from "./routes/promotions";
 import { categories } from "./routes/categories";
 import { customers } from "./routes/customers";
+import { customerSegments } from "./routes/customers.segments";
+import { customerConsent } from "./routes/customers.consent";
+import { recurrences } from "./routes/recurrences";
+import { emailJobs } from "./routes/emailJobs";
+import { cache } from "./routes/cache";
+import { startRecurrenceScheduler } from "./lib/recurringOrders";
+import { startEmailWorker } from "./lib/emailQueue";
+import { invalidateCatalogOnWrite } from "./lib/catalogCache";
+import {
+  LOCAL_UPLOADS_ROUTE,
+  getStorage,
+  localUploadsDir,
+} from "./lib/storage";
 
 const app = express();
 
@@ -59,6 +79,7 @@ app.use(cors(corsOptions));
 app.options("*", cors(corsOptions));
 
 // Body & cookies
+app.use("/products/import", importJsonBody); // limite próprio (IMPORT_MAX_MB)
 app.use(express.json({ limit: "1mb" }));
 app.use(cookieParser());
 
@@ -148,17 +169,53 @@ app.get("/ready", async (req, res) => {
   }
 });
 
+/**
+ * ==============================
+ * UPLOADS (STORAGE_DRIVER=local)
+ * ==============================
+ * Nomes de arquivo são únicos por upload, então o cache pode ser imutável.
+ */
+if (getStorage().name === "local") {
+  app.use(
+    LOCAL_UPLOADS_ROUTE,
+    express.static(localUploadsDir(), {
+      index: false,
+      maxAge: "365d",
+      immutable: true,
+      setHeaders: (res) => res.setHeader("X-Content-Type-Options", "nosniff"),
+    })
+  );
+}
+
 /**
  * ==============================
  * ROUTERS
  * ==============================
  */
+// escritas no catálogo derrubam o cache público (lib/catalogCache)
+app.use(
+  ["/products", "/categories", "/promotions"],
+  invalidateCatalogOnWrite
+);
+
 app.use("/auth", auth);
+app.use("/products", productMedia); // antes de products
+app.use("/products", productSearch); // antes de products (GET /:idOrSlug)
+app.use("/products", productImport); // antes de products
+app.use("/products", productExport); // antes de products
+app.use("/products", productRevisions); // antes de products
 app.use("/products", products);
+app.use("/uploads", uploads);
+app.use("/orders", ordersExport); // antes de orders (GET /:id)
 app.use("/orders", orders);
 app.use("/promotions", promotions);
 app.use("/categories", categories);
+app.use("/customers", customerSegments); // antes de customers (GET /:id)
+app.use("/customers", customerConsent); // antes de customers (público: /unsubscribe)
 app.use("/customers", customers);
+app.use("/recurrences", recurrences);
+app.use("/email-jobs", emailJobs);
+app.use("/cache", cache);
 
 /**
  * ==============================
@@ -212,6 +269,8 @@ app.listen(port, async () => {
   console.log(`🚀 API listening on :${port}`);
   console.log("[CORS] FRONTEND_ORIGIN =", envOrigins.join(", ") || "(vazio)");
   await connectWithRetry();
+  startRecurrenceScheduler();
+  startEmailWorker();
 });
 
 /**